@@ -1,7 +1,6 @@
 import cron from 'node-cron';
 import logger from './logger';
 import { KpiEntryService } from '@/modules/kpi_entry/kpi_entry.services';
-import { KpiTemplateService } from '@/modules/kpi_template/kpi_template.services';
 
 /**
  * Initialize all cron jobs for KPI system
@@ -9,56 +8,21 @@ import { KpiTemplateService } from '@/modules/kpi_template/kpi_template.services
 export function initializeCronJobs() {
   logger.info('Initializing KPI cron jobs...');
 
-  // Generate monthly KPI entries on 2nd day of every month at 2:00 AM
+  // Generate the entries of the current period of every active template
+  // (by its frequency) once it has started, checked every day at 2:00 AM
   cron.schedule(
-    '0 2 2 * *',
+    '0 2 * * *',
     async () => {
       try {
-        logger.info('Starting monthly KPI entries generation...');
+        logger.info('Starting KPI entries generation...');
 
-        const currentDate = new Date();
-        const month = currentDate.getMonth() + 1; // 1-12
-        const year = currentDate.getFullYear();
+        const results = await KpiEntryService.generateDueDefaultEntries();
 
-        // Get all active KPI templates
-        const templates = await KpiTemplateService.getKpiTemplates({
-          page: 1,
-          limit: 1000, // Get all templates
-        });
-
-        if (!templates.docs || templates.docs.length === 0) {
-          logger.warn(
-            'No active KPI templates found for monthly entry generation'
-          );
-          return;
-        }
-
-        // Generate entries for each template
-        for (const template of templates.docs) {
-          try {
-            await KpiEntryService.generateDefaultKpiEntries(
-              template._id.toString(),
-              month,
-              year
-            );
-            logger.info(
-              `Generated monthly entries for template: ${template.name}`
-            );
-          } catch (error) {
-            logger.error(
-              `Failed to generate entries for template ${template.name}:`,
-              error
-            );
-            // Continue with other templates even if one fails
-          }
-        }
-
-        logger.info('Monthly KPI entries generation completed');
-      } catch (error) {
-        logger.error(
-          'Error in monthly KPI entries generation cron job:',
-          error
+        logger.info(
+          `KPI entries generation completed for ${results.length} templates`
         );
+      } catch (error) {
+        logger.error('Error in KPI entries generation cron job:', error);
       }
     },
     {
@@ -66,66 +30,21 @@ export function initializeCronJobs() {
     }
   );
 
-  // Generate monthly reports on 1st day of every month at 1:00 AM
+  // Generate the reports of the previous period once its submission window
+  // has closed, checked every day at 1:00 AM
   cron.schedule(
-    '0 1 1 * *',
+    '0 1 * * *',
     async () => {
       try {
-        logger.info('Starting monthly KPI reports generation...');
+        logger.info('Starting KPI reports generation...');
 
-        const currentDate = new Date();
-        const month = currentDate.getMonth(); // Previous month (0-11)
-        const year = currentDate.getFullYear();
+        const results = await KpiEntryService.generateDueFinalReports();
 
-        // If it's January, we need to handle December of previous year
-        let targetMonth = month;
-        let targetYear = year;
-
-        if (month === 0) {
-          targetMonth = 12; // December
-          targetYear = year - 1; // Previous year
-        }
-
-        // Get all active KPI templates
-        const templates = await KpiTemplateService.getKpiTemplates({
-          page: 1,
-          limit: 1000, // Get all templates
-        });
-
-        if (!templates.docs || templates.docs.length === 0) {
-          logger.warn(
-            'No active KPI templates found for monthly report generation'
-          );
-          return;
-        }
-
-        // Generate reports for each template
-        for (const template of templates.docs) {
-          try {
-            await KpiEntryService.generateFinalReports(
-              template._id.toString(),
-              targetMonth,
-              targetYear,
-              'system'
-            );
-            logger.info(
-              `Generated monthly reports for template: ${template.name}`
-            );
-          } catch (error) {
-            logger.error(
-              `Failed to generate reports for template ${template.name}:`,
-              error
-            );
-            // Continue with other templates even if one fails
-          }
-        }
-
-        logger.info('Monthly KPI reports generation completed');
-      } catch (error) {
-        logger.error(
-          'Error in monthly KPI reports generation cron job:',
-          error
+        logger.info(
+          `KPI reports generation completed for ${results.length} templates`
         );
+      } catch (error) {
+        logger.error('Error in KPI reports generation cron job:', error);
       }
     },
     {
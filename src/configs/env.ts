@@ -29,6 +29,9 @@ const EnvSchema = z.object({
   REDIS_PORT: z.coerce.number().default(6379),
   REDIS_PASSWORD: z.string().default('root'),
   COOKIE_DOMAIN: z.string().default('localhost'),
+  STORAGE_DRIVER: z.enum(['local']).default('local'),
+  STORAGE_LOCAL_DIR: z.string().default('uploads'),
+  ATTACHMENT_MAX_SIZE_MB: z.coerce.number().default(10),
   BASE_URL: z.string(),
   AUTH_URL: z.string(),
 });
@@ -0,0 +1,87 @@
+/**
+ * Minimal RFC 4180 CSV helpers - fields containing commas, quotes or line
+ * breaks are quoted and quotes are escaped by doubling them.
+ */
+
+function escapeCsvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const field = String(value);
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Serialize rows to CSV with a header row of the given columns
+ */
+export function toCsv(
+  rows: Record<string, unknown>[],
+  columns: string[]
+): string {
+  const lines = [
+    columns.map(escapeCsvField).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsvField(row[column])).join(',')
+    ),
+  ];
+  return lines.join('\r\n');
+}
+
+/**
+ * Parse CSV with a header row into objects keyed by column name.
+ * Empty lines are skipped.
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip the byte order mark spreadsheet tools add
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...rows] = records.filter(
+    (row) => !(row.length === 1 && row[0].trim() === '')
+  );
+  const columns = header.map((column) => column.trim());
+
+  return rows.map((row) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, row[index] ?? ''])
+    )
+  );
+}
@@ -13,6 +13,15 @@ export function filterExcludedMembers(members: Member[]): Member[] {
   );
 }
 
+/**
+ * Query counterpart of filterExcludedMembers, for member queries and
+ * aggregations that filter in the database
+ */
+export const excludedMembersQuery = {
+  role: { $not: /^nodalOfficer-/ },
+  departmentSlug: { $ne: 'collector-office' },
+};
+
 /**
  * Check if a member has multiple KPI references
  * @param member Member object
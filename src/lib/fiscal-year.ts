@@ -0,0 +1,76 @@
+/**
+ * Indian financial year helpers. A fiscal year runs from April to March and
+ * is identified by the calendar year it starts in: FY 2026-27 is 2026,
+ * running from April 2026 to March 2027. Fiscal quarters are Q1 (Apr-Jun),
+ * Q2 (Jul-Sep), Q3 (Oct-Dec) and Q4 (Jan-Mar).
+ */
+
+const FISCAL_YEAR_START_MONTH = 4; // April
+
+interface FiscalMonth {
+  month: number; // 1-12
+  year: number;
+}
+
+/**
+ * Fiscal year (by its starting calendar year) a calendar month falls in
+ */
+export function getFiscalYear(month: number, year: number): number {
+  return month >= FISCAL_YEAR_START_MONTH ? year : year - 1;
+}
+
+/**
+ * Fiscal quarter (1-4) a calendar month falls in
+ */
+export function getFiscalQuarter(month: number): number {
+  return Math.floor(((month - FISCAL_YEAR_START_MONTH + 12) % 12) / 3) + 1;
+}
+
+/**
+ * Label of a fiscal year, e.g. FY 2026-27
+ */
+export function formatFiscalYear(fiscalYear: number): string {
+  return `FY ${fiscalYear}-${String((fiscalYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a fiscal year given as 2026, 2026-27 or FY 2026-27, null when the
+ * value is not a fiscal year or its two halves do not follow each other
+ */
+export function parseFiscalYear(value: string): number | null {
+  const match = /^(?:FY\s*)?(\d{4})(?:-(\d{2}|\d{4}))?$/i.exec(value.trim());
+  if (!match) return null;
+
+  const fiscalYear = Number(match[1]);
+  if (match[2] && Number(match[2]) % 100 !== (fiscalYear + 1) % 100) {
+    return null;
+  }
+  return fiscalYear;
+}
+
+/**
+ * Parse a fiscal quarter given as 1-4 or Q1-Q4, null when invalid
+ */
+export function parseFiscalQuarter(value: string): number | null {
+  const match = /^Q?([1-4])$/i.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Calendar months of a fiscal year, or of one of its quarters, in order
+ */
+export function getFiscalMonths(
+  fiscalYear: number,
+  quarter?: number
+): FiscalMonth[] {
+  const months: FiscalMonth[] = [];
+  for (let index = 0; index < 12; index++) {
+    if (quarter && Math.floor(index / 3) + 1 !== quarter) continue;
+    const month = ((FISCAL_YEAR_START_MONTH - 1 + index) % 12) + 1;
+    months.push({
+      month,
+      year: month >= FISCAL_YEAR_START_MONTH ? fiscalYear : fiscalYear + 1,
+    });
+  }
+  return months;
+}
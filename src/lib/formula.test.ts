@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateFormula, FormulaError, parseFormula } from './formula';
+
+describe('formula functions', () => {
+  it('evaluates the supported functions', () => {
+    expect(evaluateFormula('max(a, b) + abs(c)', { a: 1, b: 4, c: -2 })).toBe(
+      6
+    );
+    expect(evaluateFormula('round(min(a, 2.6))', { a: 3 })).toBe(3);
+  });
+
+  it.each(['constructor', '__proto__', 'toString', 'hasOwnProperty'])(
+    'rejects the object property %s as a function',
+    (name) => {
+      expect(() => parseFormula(`${name}(1)`)).toThrow(FormulaError);
+      expect(() => evaluateFormula(`${name}(1)`, {})).toThrow(FormulaError);
+    }
+  );
+});
+
+describe('formula arity', () => {
+  it.each(['min()', 'max()', 'abs()', 'round()', 'abs(1, 2)', 'round(a, 2)'])(
+    'rejects %s when parsing',
+    (formula) => {
+      expect(() => parseFormula(formula)).toThrow(FormulaError);
+      expect(() => evaluateFormula(formula, { a: 1 })).toThrow(FormulaError);
+    }
+  );
+
+  it('accepts min and max with one or more arguments', () => {
+    expect(evaluateFormula('min(a)', { a: 4 })).toBe(4);
+    expect(evaluateFormula('max(a, 2, 9)', { a: 4 })).toBe(9);
+  });
+});
+
+describe('formula results', () => {
+  it('rejects results that are not finite numbers', () => {
+    expect(() => evaluateFormula('a * a', { a: 1e200 })).toThrow(FormulaError);
+    expect(() => evaluateFormula('a + 1', { a: Number.NaN })).toThrow(
+      FormulaError
+    );
+  });
+
+  it('keeps division by zero at 0', () => {
+    expect(evaluateFormula('a / b', { a: 5, b: 0 })).toBe(0);
+  });
+});
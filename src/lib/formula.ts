@@ -0,0 +1,352 @@
+/**
+ * Safe arithmetic expressions for computed (formula) KPI items.
+ *
+ * Supported syntax:
+ * - numbers: 12, 0.5
+ * - references to other items: {Cases disposed} or cases_disposed
+ * - operators: + - * / with parentheses and unary minus
+ * - functions: min(a, b, ...), max(a, b, ...), abs(a), round(a)
+ *
+ * Expressions are parsed into a tree and evaluated without `eval`, so only
+ * the constructs above can ever run. Division by zero evaluates to 0, which
+ * keeps ratio KPIs (e.g. disposed / pending) scorable when the denominator
+ * is empty. Function arguments are counted when parsing and results that
+ * are not finite numbers are rejected.
+ */
+
+type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'reference'; name: string }
+  | { type: 'unary'; operator: '-'; operand: FormulaNode }
+  | {
+      type: 'binary';
+      operator: '+' | '-' | '*' | '/';
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'reference'; name: string }
+  | { type: 'identifier'; name: string }
+  | { type: 'operator'; value: string };
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  apply: (...args: number[]) => number;
+}
+
+// A Map so names like "constructor" or "__proto__" are not functions
+const FUNCTIONS = new Map<string, FormulaFunction>([
+  [
+    'min',
+    { minArgs: 1, maxArgs: Infinity, apply: (...args) => Math.min(...args) },
+  ],
+  [
+    'max',
+    { minArgs: 1, maxArgs: Infinity, apply: (...args) => Math.max(...args) },
+  ],
+  ['abs', { minArgs: 1, maxArgs: 1, apply: (value) => Math.abs(value) }],
+  ['round', { minArgs: 1, maxArgs: 1, apply: (value) => Math.round(value) }],
+]);
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, FormulaError.prototype);
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^\d*\.?\d+(?:e[+-]?\d+)?/i.exec(expression.slice(index));
+      if (!match) {
+        throw new FormulaError(`Invalid number at position ${index}`);
+      }
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = expression.indexOf('}', index);
+      if (end === -1) {
+        throw new FormulaError(`Unclosed reference at position ${index}`);
+      }
+      const name = expression.slice(index + 1, end).trim();
+      if (!name) {
+        throw new FormulaError(`Empty reference at position ${index}`);
+      }
+      tokens.push({ type: 'reference', name });
+      index = end + 1;
+      continue;
+    }
+
+    if (/[a-z_]/i.test(char)) {
+      const match = /^[a-z_]\w*/i.exec(
+        expression.slice(index)
+      ) as RegExpExecArray;
+      tokens.push({ type: 'identifier', name: match[0] });
+      index += match[0].length;
+      continue;
+    }
+
+    if ('+-*/(),'.includes(char)) {
+      tokens.push({ type: 'operator', value: char });
+      index++;
+      continue;
+    }
+
+    throw new FormulaError(
+      `Unexpected character "${char}" at position ${index}`
+    );
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser
+ * expression := term (('+' | '-') term)*
+ * term       := factor (('*' | '/') factor)*
+ * factor     := '-' factor | number | reference | call | '(' expression ')'
+ */
+export function parseFormula(expression: string): FormulaNode {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token?.type === 'operator' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new FormulaError(`Expected "${value}" in formula "${expression}"`);
+    }
+    position++;
+  };
+
+  function parseExpression(): FormulaNode {
+    let node = parseTerm();
+    while (isOperator('+') || isOperator('-')) {
+      const operator = (tokens[position++] as { value: '+' | '-' }).value;
+      node = { type: 'binary', operator, left: node, right: parseTerm() };
+    }
+    return node;
+  }
+
+  function parseTerm(): FormulaNode {
+    let node = parseFactor();
+    while (isOperator('*') || isOperator('/')) {
+      const operator = (tokens[position++] as { value: '*' | '/' }).value;
+      node = { type: 'binary', operator, left: node, right: parseFactor() };
+    }
+    return node;
+  }
+
+  function parseFactor(): FormulaNode {
+    const token = peek();
+    if (!token) {
+      throw new FormulaError(`Unexpected end of formula "${expression}"`);
+    }
+
+    if (isOperator('-')) {
+      position++;
+      return { type: 'unary', operator: '-', operand: parseFactor() };
+    }
+
+    if (isOperator('(')) {
+      position++;
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+
+    position++;
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'reference':
+        return { type: 'reference', name: token.name };
+      case 'identifier': {
+        if (!isOperator('(')) {
+          return { type: 'reference', name: token.name };
+        }
+        const name = token.name.toLowerCase();
+        const fn = FUNCTIONS.get(name);
+        if (!fn) {
+          throw new FormulaError(`Unknown function "${token.name}"`);
+        }
+        position++;
+        const args: FormulaNode[] = [];
+        if (!isOperator(')')) {
+          args.push(parseExpression());
+          while (isOperator(',')) {
+            position++;
+            args.push(parseExpression());
+          }
+        }
+        expect(')');
+        if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+          const expected =
+            fn.minArgs === fn.maxArgs
+              ? `${fn.minArgs}`
+              : `at least ${fn.minArgs}`;
+          throw new FormulaError(
+            `Function "${token.name}" expects ${expected} argument(s), got ${args.length}`
+          );
+        }
+        return { type: 'call', name, args };
+      }
+      default:
+        throw new FormulaError(
+          `Unexpected "${token.value}" in formula "${expression}"`
+        );
+    }
+  }
+
+  const tree = parseExpression();
+  if (position < tokens.length) {
+    throw new FormulaError(`Unexpected input in formula "${expression}"`);
+  }
+  return tree;
+}
+
+/**
+ * Get the unique item names referenced by a formula
+ */
+export function getFormulaReferences(expression: string): string[] {
+  const references = new Set<string>();
+
+  const visit = (node: FormulaNode) => {
+    switch (node.type) {
+      case 'reference':
+        references.add(node.name);
+        break;
+      case 'unary':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'call':
+        node.args.forEach(visit);
+        break;
+    }
+  };
+
+  visit(parseFormula(expression));
+  return [...references];
+}
+
+function applyOperator(
+  operator: '+' | '-' | '*' | '/',
+  left: number,
+  right: number
+): number {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return right === 0 ? 0 : left / right;
+  }
+}
+
+/**
+ * Evaluate a formula with the given values for the referenced items
+ */
+export function evaluateFormula(
+  expression: string,
+  variables: Record<string, number>
+): number {
+  const evaluate = (node: FormulaNode): number => {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'reference':
+        if (typeof variables[node.name] !== 'number') {
+          throw new FormulaError(`Missing value for "${node.name}"`);
+        }
+        return variables[node.name];
+      case 'unary':
+        return -evaluate(node.operand);
+      case 'binary':
+        return applyOperator(
+          node.operator,
+          evaluate(node.left),
+          evaluate(node.right)
+        );
+      case 'call': {
+        const fn = FUNCTIONS.get(node.name);
+        if (!fn) throw new FormulaError(`Unknown function "${node.name}"`);
+        return fn.apply(...node.args.map(evaluate));
+      }
+    }
+  };
+
+  const result = evaluate(parseFormula(expression));
+  if (!Number.isFinite(result)) {
+    throw new FormulaError(
+      `Formula "${expression}" does not evaluate to a finite number`
+    );
+  }
+  return result;
+}
+
+/**
+ * Order formulas so every formula comes after the formulas it references.
+ * Returns the cycle (as a path of names) when the formulas depend on each other.
+ */
+export function sortFormulas(dependencies: Record<string, string[]>): {
+  order: string[];
+  cycle?: string[];
+} {
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'visited'>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | undefined => {
+    if (state.get(name) === 'visited') return;
+    if (state.get(name) === 'visiting') {
+      return [...path.slice(path.indexOf(name)), name];
+    }
+
+    state.set(name, 'visiting');
+    path.push(name);
+    for (const dependency of dependencies[name] || []) {
+      // Only formulas can form cycles, plain inputs are leaves
+      if (!(dependency in dependencies)) continue;
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(name, 'visited');
+    order.push(name);
+  };
+
+  for (const name of Object.keys(dependencies)) {
+    const cycle = visit(name);
+    if (cycle) return { order, cycle };
+  }
+
+  return { order };
+}
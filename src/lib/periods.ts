@@ -0,0 +1,276 @@
+import { DEFAULT_TIME_ZONE, getZonedDate, startOfZonedDay } from './zoned-time';
+
+/**
+ * Reporting periods of KPI templates, one per template frequency.
+ *
+ * Period keys:
+ * - daily: 2026-03-15
+ * - weekly: 2026-W11 (ISO 8601 weeks, starting on Monday)
+ * - monthly: 2026-03
+ * - quarterly: 2026-Q1 (calendar quarters)
+ * - yearly: 2026
+ *
+ * Start and end dates are the instants the period starts and ends in a
+ * time zone; the end date is exclusive (the start of the next period).
+ */
+
+export const PERIOD_TYPES = [
+  'daily',
+  'weekly',
+  'monthly',
+  'quarterly',
+  'yearly',
+] as const;
+
+export type PeriodType = (typeof PERIOD_TYPES)[number];
+
+export interface Period {
+  type: PeriodType;
+  key: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Normalize day/month overflow like Date.UTC does
+function toCalendarDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+// First day of the period of a type that contains a calendar date
+function getPeriodStart(type: PeriodType, date: CalendarDate): CalendarDate {
+  switch (type) {
+    case 'daily':
+      return date;
+    case 'weekly': {
+      const weekday = new Date(
+        Date.UTC(date.year, date.month - 1, date.day)
+      ).getUTCDay();
+      return toCalendarDate(
+        date.year,
+        date.month,
+        date.day - ((weekday + 6) % 7)
+      );
+    }
+    case 'monthly':
+      return { year: date.year, month: date.month, day: 1 };
+    case 'quarterly':
+      return {
+        year: date.year,
+        month: Math.floor((date.month - 1) / 3) * 3 + 1,
+        day: 1,
+      };
+    case 'yearly':
+      return { year: date.year, month: 1, day: 1 };
+  }
+}
+
+// First day of the period `count` periods after the one starting at `start`
+function addPeriods(
+  type: PeriodType,
+  start: CalendarDate,
+  count: number
+): CalendarDate {
+  switch (type) {
+    case 'daily':
+      return toCalendarDate(start.year, start.month, start.day + count);
+    case 'weekly':
+      return toCalendarDate(start.year, start.month, start.day + count * 7);
+    case 'monthly':
+      return toCalendarDate(start.year, start.month + count, 1);
+    case 'quarterly':
+      return toCalendarDate(start.year, start.month + count * 3, 1);
+    case 'yearly':
+      return { year: start.year + count, month: 1, day: 1 };
+  }
+}
+
+function formatPeriodKey(type: PeriodType, start: CalendarDate): string {
+  switch (type) {
+    case 'daily':
+      return `${start.year}-${pad(start.month)}-${pad(start.day)}`;
+    case 'weekly': {
+      // The ISO week belongs to the year its Thursday falls in
+      const thursday = new Date(
+        Date.UTC(start.year, start.month - 1, start.day + 3)
+      );
+      const weekYear = thursday.getUTCFullYear();
+      const dayOfYear =
+        (thursday.getTime() - Date.UTC(weekYear, 0, 1)) / 86400000;
+      return `${weekYear}-W${pad(Math.floor(dayOfYear / 7) + 1)}`;
+    }
+    case 'monthly':
+      return `${start.year}-${pad(start.month)}`;
+    case 'quarterly':
+      return `${start.year}-Q${Math.floor((start.month - 1) / 3) + 1}`;
+    case 'yearly':
+      return String(start.year);
+  }
+}
+
+// Period key formats and the first day of the period they name
+const PERIOD_KEY_PATTERNS: {
+  type: PeriodType;
+  pattern: RegExp;
+  start: (match: RegExpExecArray) => CalendarDate;
+}[] = [
+  {
+    type: 'yearly',
+    pattern: /^(\d{4})$/,
+    start: (match) => ({ year: Number(match[1]), month: 1, day: 1 }),
+  },
+  {
+    type: 'quarterly',
+    pattern: /^(\d{4})-Q([1-4])$/,
+    start: (match) => ({
+      year: Number(match[1]),
+      month: (Number(match[2]) - 1) * 3 + 1,
+      day: 1,
+    }),
+  },
+  {
+    type: 'weekly',
+    pattern: /^(\d{4})-W(\d{2})$/,
+    // Week 1 is the week with January 4th in it
+    start: (match) =>
+      addPeriods(
+        'weekly',
+        getPeriodStart('weekly', { year: Number(match[1]), month: 1, day: 4 }),
+        Number(match[2]) - 1
+      ),
+  },
+  {
+    type: 'monthly',
+    pattern: /^(\d{4})-(\d{2})$/,
+    start: (match) => ({
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: 1,
+    }),
+  },
+  {
+    type: 'daily',
+    pattern: /^(\d{4})-(\d{2})-(\d{2})$/,
+    start: (match) => ({
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+    }),
+  },
+];
+
+// Period type and first day of a period key, null when the key is invalid
+function parsePeriodKey(
+  key: string
+): { type: PeriodType; start: CalendarDate } | null {
+  let parsed: { type: PeriodType; start: CalendarDate } | null = null;
+  for (const { type, pattern, start } of PERIOD_KEY_PATTERNS) {
+    const match = pattern.exec(key);
+    if (match) {
+      parsed = { type, start: start(match) };
+      break;
+    }
+  }
+
+  if (!parsed) return null;
+
+  // Reject out of range parts such as 2026-13 or 2026-W60
+  const start = toCalendarDate(
+    parsed.start.year,
+    parsed.start.month,
+    parsed.start.day
+  );
+  return formatPeriodKey(parsed.type, start) === key
+    ? { type: parsed.type, start }
+    : null;
+}
+
+function toPeriod(
+  type: PeriodType,
+  start: CalendarDate,
+  timeZone: string
+): Period {
+  const next = addPeriods(type, start, 1);
+  return {
+    type,
+    key: formatPeriodKey(type, start),
+    startDate: startOfZonedDay(start.year, start.month, start.day, timeZone),
+    endDate: startOfZonedDay(next.year, next.month, next.day, timeZone),
+  };
+}
+
+/**
+ * The period of a type that contains an instant, in a time zone
+ */
+export function getPeriod(
+  type: PeriodType,
+  date: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): Period {
+  return toPeriod(
+    type,
+    getPeriodStart(type, getZonedDate(date, timeZone)),
+    timeZone
+  );
+}
+
+/**
+ * The period of a key, null when the key is invalid
+ */
+export function getPeriodByKey(
+  key: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Period | null {
+  const parsed = parsePeriodKey(key);
+  return parsed ? toPeriod(parsed.type, parsed.start, timeZone) : null;
+}
+
+/**
+ * The period `count` periods before (negative) or after a period
+ */
+export function shiftPeriod(
+  period: Pick<Period, 'key'>,
+  count: number,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Period {
+  const parsed = parsePeriodKey(period.key);
+  if (!parsed) throw new Error(`Invalid period key: ${period.key}`);
+  return toPeriod(
+    parsed.type,
+    addPeriods(parsed.type, parsed.start, count),
+    timeZone
+  );
+}
+
+/**
+ * Month (1-12) and year a period starts in, used for the month/year fields
+ * kept on entries
+ */
+export function getPeriodMonth(period: Pick<Period, 'key'>): {
+  month: number;
+  year: number;
+} {
+  const parsed = parsePeriodKey(period.key);
+  if (!parsed) throw new Error(`Invalid period key: ${period.key}`);
+  return { month: parsed.start.month, year: parsed.start.year };
+}
+
+/**
+ * Key of the monthly period of a month, the period of entries created
+ * before periods were recorded
+ */
+export function getMonthlyPeriodKey(month: number, year: number): string {
+  return `${year}-${pad(month)}`;
+}
@@ -0,0 +1,80 @@
+import { Buffer } from 'node:buffer';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import env from '@/configs/env';
+
+/**
+ * Pluggable file storage for uploaded files. Files are addressed by a
+ * storage key (e.g. `kpi-entries/<entryId>/<fileId>`) so the stored metadata
+ * does not depend on where the adapter keeps the bytes.
+ */
+interface StorageAdapter {
+  put: (key: string, content: Buffer, mimeType: string) => Promise<void>;
+  get: (key: string) => Promise<Buffer>;
+  delete: (key: string) => Promise<void>;
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, StorageError.prototype);
+  }
+}
+
+/**
+ * Stores files on the local disk under a root directory
+ */
+class LocalDiskStorage implements StorageAdapter {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  // Keys must stay inside the root directory
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new StorageError(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, content: Buffer) {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new StorageError(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    // Deleting a missing file is not an error
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: StorageAdapter | undefined;
+
+/**
+ * The storage adapter configured with STORAGE_DRIVER
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    switch (env.STORAGE_DRIVER) {
+      case 'local':
+        storage = new LocalDiskStorage(env.STORAGE_LOCAL_DIR);
+        break;
+    }
+  }
+  return storage;
+}
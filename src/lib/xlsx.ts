@@ -0,0 +1,71 @@
+import { Buffer } from 'node:buffer';
+import ExcelJS from 'exceljs';
+
+/**
+ * XLSX counterparts of the CSV helpers - a single worksheet with a header
+ * row, read back as objects keyed by column name.
+ */
+
+/**
+ * Serialize rows to an XLSX workbook with a header row of the given columns
+ */
+export async function toXlsx(
+  rows: Record<string, unknown>[],
+  columns: string[],
+  sheetName = 'Sheet1'
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  worksheet.columns = columns.map((column) => ({
+    header: column,
+    key: column,
+    width: Math.max(12, column.length + 2),
+  }));
+  worksheet.getRow(1).font = { bold: true };
+
+  for (const row of rows) {
+    worksheet.addRow(
+      Object.fromEntries(columns.map((column) => [column, row[column] ?? null]))
+    );
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook with a header row into
+ * objects keyed by column name. Cells are read as their displayed text and
+ * empty rows are skipped.
+ */
+export async function parseXlsx(
+  content: Buffer
+): Promise<Record<string, string>[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(content as unknown as ExcelJS.Buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const columns: string[] = [];
+  worksheet.getRow(1).eachCell((cell, columnNumber) => {
+    columns[columnNumber] = cell.text.trim();
+  });
+
+  const records: Record<string, string>[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const record: Record<string, string> = {};
+    columns.forEach((column, columnNumber) => {
+      if (column) record[column] = row.getCell(columnNumber).text ?? '';
+    });
+    if (Object.values(record).some((value) => value.trim() !== '')) {
+      records.push(record);
+    }
+  });
+
+  return records;
+}
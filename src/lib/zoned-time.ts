@@ -0,0 +1,93 @@
+/**
+ * Time zone helpers built on Intl, so deadlines like "midnight in
+ * Asia/Kolkata" can be computed regardless of the server's time zone.
+ */
+
+export const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+
+/**
+ * Check that a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    return Boolean(
+      new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a calendar day starts (00:00) in a time zone.
+ * Month is 1-12; days past the end of the month roll over like Date.UTC.
+ */
+export function startOfZonedDay(
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const localMidnight = Date.UTC(year, month - 1, day);
+  const offset = getTimeZoneOffset(new Date(localMidnight), timeZone);
+  // Re-check the offset at the resulting instant for zones with DST
+  const correctedOffset = getTimeZoneOffset(
+    new Date(localMidnight - offset),
+    timeZone
+  );
+  return new Date(localMidnight - correctedOffset);
+}
+
+/**
+ * Calendar date (month 1-12) of an instant in a time zone
+ */
+export function getZonedDate(
+  date: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { year: number; month: number; day: number } {
+  const zoned = new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+  return {
+    year: zoned.getUTCFullYear(),
+    month: zoned.getUTCMonth() + 1,
+    day: zoned.getUTCDate(),
+  };
+}
+
+/**
+ * Calendar month (1-12) and year of an instant in a time zone
+ */
+export function getZonedMonth(
+  date: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { month: number; year: number } {
+  const { month, year } = getZonedDate(date, timeZone);
+  return { month, year };
+}
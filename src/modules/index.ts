@@ -1,5 +1,6 @@
 import express from 'express';
 import { createRouter } from '@/configs/server.config';
+import kpiAppealRouter from './kpi_appeals/kpi_appeals.router';
 import kpiEntryRouter from './kpi_entry/kpi_entry.router';
 import kpiTemplateRouter from './kpi_template/kpi_template.router';
 import memberRouter from './members/members.route';
@@ -9,6 +10,9 @@ const router = createRouter();
 // KPI Entry routes
 router.use('/kpi-entries', kpiEntryRouter);
 
+// KPI Appeal routes
+router.use('/kpi-appeals', kpiAppealRouter);
+
 // KPI Template routes
 router.use('/kpi-templates', kpiTemplateRouter);
 
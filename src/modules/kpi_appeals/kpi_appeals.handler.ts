@@ -0,0 +1,200 @@
+import { NextFunction, Request, Response } from 'express';
+import { KpiAppealService } from './kpi_appeals.services';
+import { User } from '@/lib/api-client';
+import Respond from '@/lib/respond';
+
+export class KpiAppealHandler {
+  /**
+   * File an appeal against values of a generated entry
+   */
+  static async createAppeal(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+
+      const appeal = await KpiAppealService.createAppeal(request.body, user.id);
+
+      return Respond(
+        response,
+        {
+          message: 'Appeal filed successfully',
+          data: appeal,
+        },
+        201
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List appeals, reviewers see all and officers their own
+   */
+  static async getAppeals(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const { status, templateId, entryId, month, year, page, limit } =
+        request.query;
+
+      const appeals = await KpiAppealService.getAppeals(
+        {
+          status: status as string,
+          templateId: templateId as string,
+          entryId: entryId as string,
+          month: month ? Number.parseInt(month as string) : undefined,
+          year: year ? Number.parseInt(year as string) : undefined,
+          page: page ? Number.parseInt(page as string) : undefined,
+          limit: limit ? Number.parseInt(limit as string) : undefined,
+        },
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Appeals retrieved successfully',
+          data: appeals,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an appeal
+   */
+  static async getAppeal(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const appealId = request.params.appealId as string;
+
+      const appeal = await KpiAppealService.getAppeal(appealId, user.id);
+
+      return Respond(
+        response,
+        {
+          message: 'Appeal retrieved successfully',
+          data: appeal,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Accept an appeal, the entry is rescored with the corrected values
+   */
+  static async acceptAppeal(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const appealId = request.params.appealId as string;
+
+      const appeal = await KpiAppealService.acceptAppeal(
+        appealId,
+        request.body,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Appeal accepted and entry rescored successfully',
+          data: appeal,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reject an appeal with a reason
+   */
+  static async rejectAppeal(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const appealId = request.params.appealId as string;
+
+      const appeal = await KpiAppealService.rejectAppeal(
+        appealId,
+        request.body.reason,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Appeal rejected successfully',
+          data: appeal,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Appeal outcomes for a month
+   */
+  static async getAppealReport(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { month, year, templateId } = request.query;
+
+      if (!month || !year) {
+        return Respond(
+          response,
+          {
+            message: 'month and year are required',
+          },
+          400
+        );
+      }
+
+      const report = await KpiAppealService.getAppealReport(
+        Number.parseInt(month as string),
+        Number.parseInt(year as string),
+        templateId as string | undefined
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Appeal report generated successfully',
+          data: report,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { model, Schema } from 'mongoose';
+import z from 'zod';
+
+/**
+ * Appeal of an officer against values of a generated (finalized) entry.
+ * Appeals are filed by the member the entry is for within the template's
+ * appeal window and decided by the reviewers: accepted appeals correct the
+ * disputed values and rescore the entry, rejected appeals leave it as is.
+ */
+const APPEAL_STATUSES = ['pending', 'accepted', 'rejected'] as const;
+
+const zAppealValue = z.union([z.number(), z.string(), z.boolean()]);
+
+const zAppealItem = z.object({
+  name: z.string().min(1),
+  reason: z.string().min(1),
+  proposedValue: zAppealValue.optional(), // Value the officer asks for
+  currentValue: zAppealValue, // Snapshot when the appeal was filed
+  currentScore: z.number(),
+});
+
+const zAppealDecision = z.object({
+  by: z.string().min(1),
+  role: z.string().optional(), // Member role of the reviewer at the time
+  reason: z.string().min(1),
+  at: z.date(),
+  values: z
+    .array(z.object({ name: z.string().min(1), value: zAppealValue }))
+    .optional(), // Corrected values of an accepted appeal
+});
+
+// Effect of an accepted appeal on the entry
+const zAppealOutcome = z.object({
+  totalScoreBefore: z.number(),
+  totalScoreAfter: z.number(),
+  normalizedScoreBefore: z.number(),
+  normalizedScoreAfter: z.number(),
+  rankBefore: z.number().nullable(),
+  rankAfter: z.number().nullable(),
+});
+
+export const zKpiAppeal = z.object({
+  id: z.string().min(1),
+  entryId: z.string().min(1),
+  kpiTemplateId: z.string().min(1),
+  month: z.number().min(1).max(12),
+  year: z.number().min(2020),
+  createdFor: z.string().min(1), // Officer the entry is for, who filed the appeal
+  kpirefs: z.string().optional(),
+  items: z.array(zAppealItem).min(1),
+  status: z.enum(APPEAL_STATUSES),
+  decision: zAppealDecision.optional(),
+  outcome: zAppealOutcome.optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const zKpiAppealCreate = z.object({
+  entryId: z.string().min(1),
+  items: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        reason: z.string().min(1),
+        proposedValue: zAppealValue.optional(),
+      })
+    )
+    .min(1),
+});
+
+export const zKpiAppealAccept = z.object({
+  reason: z.string().min(1),
+  // Corrected values, defaults to the proposed values of the appeal
+  values: z
+    .array(z.object({ name: z.string().min(1), value: zAppealValue }))
+    .optional(),
+});
+
+export const zKpiAppealReject = z.object({
+  reason: z.string().min(1),
+});
+
+export type KpiAppeal = z.infer<typeof zKpiAppeal>;
+export type KpiAppealCreate = z.infer<typeof zKpiAppealCreate>;
+export type KpiAppealAccept = z.infer<typeof zKpiAppealAccept>;
+
+const appealItemSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    reason: { type: String, required: true },
+    proposedValue: { type: Schema.Types.Mixed, required: false },
+    currentValue: { type: Schema.Types.Mixed, required: true },
+    currentScore: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const appealDecisionSchema = new Schema(
+  {
+    by: { type: String, required: true },
+    role: { type: String, required: false },
+    reason: { type: String, required: true },
+    at: { type: Date, required: true },
+    values: {
+      type: [
+        new Schema(
+          {
+            name: { type: String, required: true },
+            value: { type: Schema.Types.Mixed, required: true },
+          },
+          { _id: false }
+        ),
+      ],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+const appealOutcomeSchema = new Schema(
+  {
+    totalScoreBefore: { type: Number, required: true },
+    totalScoreAfter: { type: Number, required: true },
+    normalizedScoreBefore: { type: Number, required: true },
+    normalizedScoreAfter: { type: Number, required: true },
+    rankBefore: { type: Number, default: null },
+    rankAfter: { type: Number, default: null },
+  },
+  { _id: false }
+);
+
+const kpiAppealSchema = new Schema<KpiAppeal>(
+  {
+    entryId: { type: String, required: true, index: true },
+    kpiTemplateId: { type: String, required: true },
+    month: { type: Number, required: true, min: 1, max: 12 },
+    year: { type: Number, required: true, min: 2020 },
+    createdFor: { type: String, required: true },
+    kpirefs: { type: String, required: false },
+    items: { type: [appealItemSchema], required: true },
+    status: {
+      type: String,
+      enum: APPEAL_STATUSES,
+      default: 'pending',
+      required: true,
+    },
+    decision: { type: appealDecisionSchema, required: false },
+    outcome: { type: appealOutcomeSchema, required: false },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+kpiAppealSchema.index({ kpiTemplateId: 1, year: 1, month: 1, status: 1 });
+
+export const KpiAppealModel = model<KpiAppeal>(
+  'tbl_kpi_appeals',
+  kpiAppealSchema
+);
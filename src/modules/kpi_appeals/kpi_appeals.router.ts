@@ -0,0 +1,37 @@
+import { createRouter } from '@/configs/server.config';
+import { KpiAppealHandler } from './kpi_appeals.handler';
+import { validateRequest } from '@/middlewares/zod-validate-request';
+import {
+  zKpiAppealAccept,
+  zKpiAppealCreate,
+  zKpiAppealReject,
+} from './kpi_appeals.model';
+
+const router = createRouter();
+
+// File an appeal against a generated entry and list appeals
+router.post(
+  '/',
+  validateRequest({ body: zKpiAppealCreate }),
+  KpiAppealHandler.createAppeal
+);
+router.get('/', KpiAppealHandler.getAppeals);
+
+// Appeal outcomes per month
+router.get('/report', KpiAppealHandler.getAppealReport);
+
+router.get('/:appealId', KpiAppealHandler.getAppeal);
+
+// Reviewer decisions, accepting rescores the entry
+router.post(
+  '/:appealId/accept',
+  validateRequest({ body: zKpiAppealAccept }),
+  KpiAppealHandler.acceptAppeal
+);
+router.post(
+  '/:appealId/reject',
+  validateRequest({ body: zKpiAppealReject }),
+  KpiAppealHandler.rejectAppeal
+);
+
+export default router;
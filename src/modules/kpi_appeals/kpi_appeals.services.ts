@@ -0,0 +1,600 @@
+import { FilterQuery, isValidObjectId } from 'mongoose';
+import {
+  KpiAppeal,
+  KpiAppealAccept,
+  KpiAppealCreate,
+  KpiAppealModel,
+} from './kpi_appeals.model';
+import { KpiEntryModel } from '../kpi_entry/kpi_entry.model';
+import { KpiEntryService } from '../kpi_entry/kpi_entry.services';
+import { KpiTemplateService } from '../kpi_template/kpi_template.services';
+import { KpiAuditLogService } from '../kpi_audt_logs/kpi_audit_logs.services';
+import { MemberService } from '../members/members.service';
+import APIError from '@/lib/errors/APIError';
+import { HttpErrorStatusCode } from '@/types/errors/errors.types';
+import logger from '@/configs/logger';
+
+// Appeal window used by templates without `appealWindowDays`
+const DEFAULT_APPEAL_WINDOW_DAYS = 7;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export class KpiAppealService {
+  /**
+   * File an appeal against values of a generated entry. Only the member the
+   * entry is for can appeal, within the template's appeal window after the
+   * entry was generated, and one appeal per entry can be pending at a time.
+   */
+  static async createAppeal(appeal: KpiAppealCreate, userId: string) {
+    try {
+      const entry = await KpiEntryModel.findById(appeal.entryId).lean();
+      if (!entry) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Entry Not Found',
+          MESSAGE: `KPI entry not found: ${appeal.entryId}`,
+        });
+      }
+
+      if (entry.createdFor !== userId) {
+        throw new APIError({
+          STATUS: HttpErrorStatusCode.FORBIDDEN,
+          TITLE: 'Permission Denied',
+          MESSAGE: 'Only the officer an entry is for can appeal its scores',
+        });
+      }
+
+      if (entry.status !== 'generated') {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Entry Not Generated',
+          MESSAGE: `Only generated entries can be appealed, this entry is ${entry.status}`,
+        });
+      }
+
+      const template = await KpiTemplateService.getKpiTemplate(
+        entry.kpiTemplateId
+      );
+      const { closesAt } = this.getAppealWindow(
+        entry,
+        template?.appealWindowDays
+      );
+      if (new Date() >= closesAt) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Appeal Period Expired',
+          MESSAGE: `The appeal period for this entry closed at ${closesAt.toISOString()}`,
+        });
+      }
+
+      const names = appeal.items.map((item) => item.name);
+      const duplicate = names.find(
+        (name, index) => names.indexOf(name) !== index
+      );
+      if (duplicate) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Appeal',
+          MESSAGE: `${duplicate} is appealed more than once`,
+        });
+      }
+
+      const items = appeal.items.map((item) => {
+        const saved = entry.values.find((value) => value.name === item.name);
+        if (!saved) {
+          throw new APIError({
+            STATUS: 400,
+            TITLE: 'Invalid Appeal',
+            MESSAGE: `The entry has no value for ${item.name}`,
+          });
+        }
+        return {
+          ...item,
+          currentValue: saved.value,
+          currentScore: saved.score,
+        };
+      });
+
+      const pendingAppeal = await KpiAppealModel.exists({
+        entryId: appeal.entryId,
+        status: 'pending',
+      });
+      if (pendingAppeal) {
+        throw new APIError({
+          STATUS: HttpErrorStatusCode.CONFLICT,
+          TITLE: 'Appeal Already Pending',
+          MESSAGE: 'This entry already has a pending appeal',
+        });
+      }
+
+      const createdAppeal = await KpiAppealModel.create({
+        entryId: appeal.entryId,
+        kpiTemplateId: entry.kpiTemplateId,
+        month: entry.month,
+        year: entry.year,
+        createdFor: entry.createdFor,
+        kpirefs: entry.kpirefs,
+        items,
+        status: 'pending',
+      });
+
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId,
+        entityId: appeal.entryId,
+        action: 'appeal',
+        changes: [
+          {
+            field: 'appeal',
+            oldValue: null,
+            newValue: {
+              id: createdAppeal._id.toString(),
+              status: 'pending',
+              items: items.map((item) => item.name),
+            },
+          },
+        ],
+      });
+
+      return createdAppeal;
+    } catch (error) {
+      logger.error('Error creating KPI appeal:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Appeals are open from the moment an entry is generated for the
+   * template's appeal window in days
+   */
+  static getAppealWindow(
+    entry: { generatedAt?: Date; updatedAt?: Date },
+    appealWindowDays?: number
+  ) {
+    const days = appealWindowDays ?? DEFAULT_APPEAL_WINDOW_DAYS;
+    // Entries generated before generatedAt was recorded use their last update
+    const opensAt = entry.generatedAt || entry.updatedAt || new Date(0);
+    return {
+      opensAt,
+      closesAt: new Date(opensAt.getTime() + days * DAY_IN_MS),
+      days,
+    };
+  }
+
+  /**
+   * List appeals. Reviewers see every appeal, officers only their own.
+   */
+  static async getAppeals(
+    filters: {
+      status?: string;
+      templateId?: string;
+      entryId?: string;
+      month?: number;
+      year?: number;
+      page?: number;
+      limit?: number;
+    },
+    userId: string
+  ) {
+    try {
+      const { status, templateId, entryId, month, year } = filters;
+      const page = filters.page || 1;
+      const limit = filters.limit || 10;
+
+      const query: FilterQuery<KpiAppeal> = {};
+      if (status) query.status = status;
+      if (templateId) query.kpiTemplateId = templateId;
+      if (entryId) query.entryId = entryId;
+      if (month) query.month = month;
+      if (year) query.year = year;
+      if (!(await this.isReviewer(userId))) query.createdFor = userId;
+
+      const [appeals, total] = await Promise.all([
+        KpiAppealModel.find(query)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        KpiAppealModel.countDocuments(query),
+      ]);
+
+      return {
+        docs: appeals,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page < Math.ceil(total / limit),
+        hasPreviousPage: page > 1,
+      };
+    } catch (error) {
+      logger.error('Error getting KPI appeals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an appeal, visible to its officer and the reviewers
+   */
+  static async getAppeal(appealId: string, userId: string) {
+    const appeal = await this.findAppeal(appealId);
+    if (appeal.createdFor !== userId && !(await this.isReviewer(userId))) {
+      throw new APIError({
+        STATUS: HttpErrorStatusCode.FORBIDDEN,
+        TITLE: 'Permission Denied',
+        MESSAGE: 'You are not allowed to view this appeal',
+      });
+    }
+    return appeal;
+  }
+
+  /**
+   * Accept an appeal: the disputed values are replaced with the corrected
+   * (by default the proposed) values, the entry is rescored against the
+   * template version it is pinned to and its rank among the generated
+   * entries of the month is recalculated.
+   */
+  static async acceptAppeal(
+    appealId: string,
+    decision: KpiAppealAccept,
+    reviewerId: string
+  ) {
+    try {
+      const appeal = await this.findAppeal(appealId);
+      const { entry, reviewer } = await this.getDecisionContext(
+        appeal,
+        reviewerId
+      );
+
+      const correctedValues =
+        decision.values ||
+        appeal.items
+          .filter((item) => item.proposedValue !== undefined)
+          .map((item) => ({ name: item.name, value: item.proposedValue! }));
+      if (correctedValues.length === 0) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Missing Corrected Values',
+          MESSAGE:
+            'The appeal has no proposed values, give the corrected values to accept it',
+        });
+      }
+      const notAppealed = correctedValues.find(
+        (value) => !appeal.items.some((item) => item.name === value.name)
+      );
+      if (notAppealed) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Corrected Values',
+          MESSAGE: `${notAppealed.name} is not part of the appeal`,
+        });
+      }
+
+      const template = await KpiTemplateService.getScoringTemplate(
+        entry.kpiTemplateId,
+        entry.templateVersion
+      );
+      if (!template) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${entry.kpiTemplateId}`,
+        });
+      }
+
+      // Corrected values are scored by the rules, not kept as bypassed
+      const values = entry.values.map((value) => {
+        const corrected = correctedValues.find((v) => v.name === value.name);
+        return corrected
+          ? {
+              ...value,
+              value: corrected.value,
+              score: undefined,
+              isByPassed: false,
+            }
+          : value;
+      });
+      const prepared = KpiEntryService.prepareKpiEntryValues(values, template);
+
+      // Claim the appeal before rescoring so it is decided only once
+      await this.claimAppeal(appealId, {
+        status: 'accepted',
+        decision: {
+          by: reviewerId,
+          role: reviewer?.role,
+          reason: decision.reason,
+          at: new Date(),
+          values: correctedValues,
+        },
+      });
+
+      const rankBefore = await KpiEntryService.getLockedEntryRank(entry);
+      const result = await KpiEntryModel.updateOne(
+        { _id: entry._id, status: 'generated' },
+        {
+          values: prepared.values,
+          totalScore: prepared.totalScore,
+          normalizedScore: prepared.normalizedScore,
+          sectionScores: prepared.sectionScores,
+          completeness: prepared.completeness,
+        }
+      );
+      if (result.matchedCount === 0) {
+        // Hand the appeal back for a new decision
+        await KpiAppealModel.updateOne(
+          { _id: appealId, status: 'accepted' },
+          { status: 'pending', $unset: { decision: 1 } }
+        );
+        throw new APIError({
+          STATUS: HttpErrorStatusCode.CONFLICT,
+          TITLE: 'Entry Changed',
+          MESSAGE: 'The entry changed while the appeal was decided, try again',
+        });
+      }
+      const rankAfter = await KpiEntryService.getLockedEntryRank(entry);
+
+      const outcome = {
+        totalScoreBefore: entry.totalScore,
+        totalScoreAfter: prepared.totalScore,
+        normalizedScoreBefore: entry.normalizedScore || 0,
+        normalizedScoreAfter: prepared.normalizedScore,
+        rankBefore,
+        rankAfter,
+      };
+      const acceptedAppeal = await KpiAppealModel.findByIdAndUpdate(
+        appealId,
+        { outcome },
+        { new: true }
+      ).lean();
+
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId: reviewerId,
+        entityId: appeal.entryId,
+        action: 'appeal_accept',
+        changes: [
+          {
+            field: 'appeal',
+            oldValue: { id: appealId, status: 'pending' },
+            newValue: {
+              id: appealId,
+              status: 'accepted',
+              reason: decision.reason,
+            },
+          },
+          ...KpiEntryService.diffEntryValues(entry.values, prepared.values),
+          {
+            field: 'totalScore',
+            oldValue: outcome.totalScoreBefore,
+            newValue: outcome.totalScoreAfter,
+          },
+          {
+            field: 'normalizedScore',
+            oldValue: outcome.normalizedScoreBefore,
+            newValue: outcome.normalizedScoreAfter,
+          },
+          { field: 'rank', oldValue: rankBefore, newValue: rankAfter },
+        ],
+      });
+
+      logger.info(
+        `Accepted appeal ${appealId} for entry ${appeal.entryId}: total ${outcome.totalScoreBefore} -> ${outcome.totalScoreAfter}, rank ${rankBefore} -> ${rankAfter}`
+      );
+      return acceptedAppeal;
+    } catch (error) {
+      logger.error('Error accepting KPI appeal:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reject an appeal with a reason, the entry is left unchanged
+   */
+  static async rejectAppeal(
+    appealId: string,
+    reason: string,
+    reviewerId: string
+  ) {
+    try {
+      const appeal = await this.findAppeal(appealId);
+      const { reviewer } = await this.getDecisionContext(appeal, reviewerId);
+
+      const rejectedAppeal = await this.claimAppeal(appealId, {
+        status: 'rejected',
+        decision: {
+          by: reviewerId,
+          role: reviewer?.role,
+          reason,
+          at: new Date(),
+        },
+      });
+
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId: reviewerId,
+        entityId: appeal.entryId,
+        action: 'appeal_reject',
+        changes: [
+          {
+            field: 'appeal',
+            oldValue: { id: appealId, status: 'pending' },
+            newValue: { id: appealId, status: 'rejected', reason },
+          },
+        ],
+      });
+
+      return rejectedAppeal;
+    } catch (error) {
+      logger.error('Error rejecting KPI appeal:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Appeal outcomes of a month: counts per status, acceptance rate, the
+   * average score change of accepted appeals and the most appealed items
+   */
+  static async getAppealReport(
+    month: number,
+    year: number,
+    templateId?: string
+  ) {
+    try {
+      const appeals = await KpiAppealModel.find({
+        month,
+        year,
+        ...(templateId && { kpiTemplateId: templateId }),
+      })
+        .sort({ createdAt: 1 })
+        .lean();
+
+      const countByStatus = (status: KpiAppeal['status']) =>
+        appeals.filter((appeal) => appeal.status === status).length;
+      const accepted = appeals.filter((appeal) => appeal.status === 'accepted');
+      const decidedCount = accepted.length + countByStatus('rejected');
+
+      const averageScoreChange =
+        accepted.length > 0
+          ? accepted.reduce(
+              (sum, appeal) =>
+                sum +
+                ((appeal.outcome?.totalScoreAfter ?? 0) -
+                  (appeal.outcome?.totalScoreBefore ?? 0)),
+              0
+            ) / accepted.length
+          : 0;
+
+      const items = new Map<string, { appeals: number; accepted: number }>();
+      appeals.forEach((appeal) =>
+        appeal.items.forEach((item) => {
+          const counts = items.get(item.name) || { appeals: 0, accepted: 0 };
+          counts.appeals++;
+          if (appeal.status === 'accepted') counts.accepted++;
+          items.set(item.name, counts);
+        })
+      );
+
+      return {
+        month,
+        year,
+        templateId: templateId || 'All Templates',
+        summary: {
+          total: appeals.length,
+          pending: countByStatus('pending'),
+          accepted: accepted.length,
+          rejected: countByStatus('rejected'),
+          acceptanceRate:
+            decidedCount > 0
+              ? Math.round((accepted.length / decidedCount) * 100)
+              : 0,
+          averageScoreChange: Math.round(averageScoreChange * 100) / 100,
+        },
+        items: [...items.entries()]
+          .map(([name, counts]) => ({ name, ...counts }))
+          .sort((a, b) => b.appeals - a.appeals),
+        appeals: appeals.map((appeal) => ({
+          appealId: appeal._id.toString(),
+          entryId: appeal.entryId,
+          createdFor: appeal.createdFor,
+          kpirefs: appeal.kpirefs,
+          status: appeal.status,
+          items: appeal.items.map((item) => item.name),
+          decision: appeal.decision,
+          outcome: appeal.outcome,
+          createdAt: appeal.createdAt,
+        })),
+      };
+    } catch (error) {
+      logger.error('Error building KPI appeal report:', error);
+      throw error;
+    }
+  }
+
+  static async findAppeal(appealId: string) {
+    const appeal = isValidObjectId(appealId)
+      ? await KpiAppealModel.findById(appealId).lean()
+      : null;
+    if (!appeal) {
+      throw new APIError({
+        STATUS: 404,
+        TITLE: 'Appeal Not Found',
+        MESSAGE: `Appeal not found: ${appealId}`,
+      });
+    }
+    return appeal;
+  }
+
+  /**
+   * Move a pending appeal to its decision, conflict when another reviewer
+   * decided it first
+   */
+  static async claimAppeal(
+    appealId: string,
+    update: Pick<KpiAppeal, 'status' | 'decision'>
+  ) {
+    const appeal = await KpiAppealModel.findOneAndUpdate(
+      { _id: appealId, status: 'pending' },
+      update,
+      { new: true }
+    ).lean();
+    if (!appeal) {
+      throw new APIError({
+        STATUS: HttpErrorStatusCode.CONFLICT,
+        TITLE: 'Appeal Already Decided',
+        MESSAGE: 'The appeal was decided by another reviewer',
+      });
+    }
+    return appeal;
+  }
+
+  /**
+   * Check a pending appeal can be decided by the reviewer, who reviews
+   * entries (SDM or collector-office) and is not the appellant
+   */
+  static async getDecisionContext(appeal: KpiAppeal, reviewerId: string) {
+    if (appeal.status !== 'pending') {
+      throw new APIError({
+        STATUS: 400,
+        TITLE: 'Appeal Already Decided',
+        MESSAGE: `This appeal was already ${appeal.status}`,
+      });
+    }
+
+    const entry = await KpiEntryModel.findById(appeal.entryId).lean();
+    if (!entry) {
+      throw new APIError({
+        STATUS: 404,
+        TITLE: 'KPI Entry Not Found',
+        MESSAGE: `KPI entry not found: ${appeal.entryId}`,
+      });
+    }
+
+    const reviewer = await MemberService.getMemberByUserId(reviewerId);
+    const hasPermission = await KpiEntryService.hasTransitionPermission(
+      'review',
+      reviewerId,
+      reviewer?.role,
+      reviewer?.departmentSlug,
+      entry
+    );
+    if (!hasPermission) {
+      throw new APIError({
+        STATUS: HttpErrorStatusCode.FORBIDDEN,
+        TITLE: 'Permission Denied',
+        MESSAGE:
+          'Only reviewers can decide appeals, and not on their own entry',
+      });
+    }
+
+    return { entry, reviewer };
+  }
+
+  // SDMs and collector-office review entries and their appeals
+  static async isReviewer(userId: string) {
+    const member = await MemberService.getMemberByUserId(userId);
+    return (
+      member?.departmentSlug === 'collector-office' ||
+      member?.role?.toLowerCase() === 'sdm'
+    );
+  }
+}
@@ -1,11 +1,32 @@
 import { model, Schema } from 'mongoose';
 import z from 'zod';
 
+const AUDIT_ACTIONS = [
+  'create',
+  'update',
+  'delete',
+  'generate_report',
+  'rescore',
+  'archive',
+  'restore',
+  'submit',
+  'review',
+  'approve',
+  'return',
+  'extend',
+  'reopen',
+  'relock',
+  'appeal',
+  'appeal_accept',
+  'appeal_reject',
+] as const;
+
 const zKpiAuditLog = z.object({
   id: z.string().min(1),
   type: z.enum(['template', 'entry']),
   userId: z.string(),
-  action: z.enum(['create', 'update', 'delete', 'generate_report']),
+  entityId: z.string().optional(), // Template or entry the log belongs to
+  action: z.enum(AUDIT_ACTIONS),
   changes: z.array(
     z.object({
       field: z.string(),
@@ -29,16 +50,17 @@ export type KpiAuditLogCreate = z.infer<typeof zKpiAuditLogCreate>;
 const changeSchema = new Schema({
   field: { type: String, required: true },
   oldValue: { type: Schema.Types.Mixed },
-  newValue: { type: Schema.Types.Mixed, required: true },
+  newValue: { type: Schema.Types.Mixed }, // null when an item value is removed
 });
 
 const kpiAuditLogSchema = new Schema<KpiAuditLog>(
   {
     type: { type: String, required: true },
     userId: { type: String, required: true },
+    entityId: { type: String, required: false, index: true },
     action: {
       type: String,
-      enum: ['create', 'update', 'delete', 'generate_report'],
+      enum: AUDIT_ACTIONS,
       required: true,
     },
     changes: { type: [changeSchema], required: true },
@@ -15,13 +15,14 @@ export class KpiEntryHandler {
   ) {
     try {
       const user = request.user as User;
-      const { templateId, month, year } = request.body;
+      const { templateId, period, month, year } = request.body;
 
-      if (!templateId || !month || !year) {
+      // A period key (e.g. 2025-W07, 2025-Q1) or a month and year
+      if (!templateId || (!period && (!month || !year))) {
         return Respond(
           response,
           {
-            message: 'templateId, month, and year are required',
+            message: 'templateId and a period, or month and year, are required',
           },
           400
         );
@@ -31,7 +32,8 @@ export class KpiEntryHandler {
         templateId,
         month,
         year,
-        user.id
+        user.id,
+        period
       );
 
       return Respond(
@@ -48,7 +50,7 @@ export class KpiEntryHandler {
   }
 
   /**
-   * Update KPI entry values
+   * Update KPI entry values, or save a partial draft with ?draft=true
    */
   static async updateEntryValues(
     request: Request,
@@ -69,10 +71,12 @@ export class KpiEntryHandler {
         );
       }
 
+      // ?draft=true saves partial values without the required items check
       const updatedEntry = await KpiEntryService.updateKpiEntryValues(
         entryId,
         request.body,
-        user.id
+        user.id,
+        { draft: request.query.draft === 'true' }
       );
 
       return Respond(
@@ -166,6 +170,41 @@ export class KpiEntryHandler {
     }
   }
 
+  /**
+   * Get the score and rank trend of a user, kpiref or jurisdiction
+   */
+  static async getTrends(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { userId, kpiref, jurisdiction, templateId, from, to, months } =
+        request.query;
+
+      const trends = await KpiEntryService.getKpiEntryTrends({
+        userId: userId as string,
+        kpiref: kpiref as string,
+        jurisdiction: jurisdiction as string,
+        templateId: templateId as string,
+        from: from as string,
+        to: to as string,
+        months: months ? Number(months) : undefined,
+      });
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry trends fetched successfully',
+          data: trends,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get KPI entry by jurisdiction
    */
@@ -220,13 +259,14 @@ export class KpiEntryHandler {
   ) {
     try {
       const user = request.user as User;
-      const { templateId, month, year } = request.body;
+      const { templateId, period, month, year } = request.body;
 
-      if (!templateId || !month || !year) {
+      // A period key (e.g. 2025-W07, 2025-Q1) or a month and year
+      if (!templateId || (!period && (!month || !year))) {
         return Respond(
           response,
           {
-            message: 'templateId, month, and year are required',
+            message: 'templateId and a period, or month and year, are required',
           },
           400
         );
@@ -236,7 +276,8 @@ export class KpiEntryHandler {
         templateId,
         month,
         year,
-        user.id
+        user.id,
+        period
       );
 
       return Respond(
@@ -261,8 +302,19 @@ export class KpiEntryHandler {
     next: NextFunction
   ) {
     try {
-      const { page, limit, templateId, department, role, month, year } =
-        request.query;
+      const {
+        page,
+        limit,
+        templateId,
+        department,
+        role,
+        month,
+        year,
+        sortBy,
+        section,
+        awaitingClarification,
+        period,
+      } = request.query;
 
       const result =
         await KpiEntryService.getKpiEntriesStatisticsByDepartmentAndRoleWithMonthAndYear(
@@ -272,7 +324,11 @@ export class KpiEntryHandler {
           department as string,
           role as string,
           month as string,
-          year as string
+          year as string,
+          sortBy as 'totalScore' | 'normalizedScore',
+          section as string,
+          awaitingClarification === 'true',
+          period as string
         );
 
       return Respond(
@@ -287,4 +343,762 @@ export class KpiEntryHandler {
       next(error);
     }
   }
+
+  /**
+   * Get per item statistics of a month or period
+   */
+  static async getItemStatistics(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { templateId, department, role, month, year, period } =
+        request.query;
+
+      const result = await KpiEntryService.getItemStatistics({
+        templateId: templateId as string,
+        department: department as string,
+        role: role as string,
+        month: month ? Number(month) : undefined,
+        year: year ? Number(year) : undefined,
+        period: period as string,
+      });
+
+      return Respond(
+        response,
+        {
+          message: 'KPI item statistics retrieved successfully',
+          data: result,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get fiscal year (April-March) statistics with year-to-date rankings
+   */
+  static async getFiscalStatistics(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { fiscalYear, quarter, templateId, department, role, sortBy } =
+        request.query;
+
+      const result = await KpiEntryService.getFiscalStatistics({
+        fiscalYear: fiscalYear as string,
+        quarter: quarter as string,
+        templateId: templateId as string,
+        department: department as string,
+        role: role as string,
+        sortBy: sortBy as 'totalScore' | 'normalizedScore',
+      });
+
+      return Respond(
+        response,
+        {
+          message: 'Fiscal KPI statistics retrieved successfully',
+          data: result,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Preview rescoring KPI entries against a template version
+   */
+  static async previewRescore(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+
+      const result = await KpiEntryService.rescoreKpiEntries(
+        request.body,
+        false,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entries rescore preview generated successfully',
+          data: result,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rescore KPI entries against a template version
+   */
+  static async applyRescore(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+
+      const result = await KpiEntryService.rescoreKpiEntries(
+        request.body,
+        true,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entries rescored successfully',
+          data: result,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Submit KPI entry values for review
+   */
+  static async submitEntry(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const entry = await KpiEntryService.transitionKpiEntry(
+        entryId,
+        'submit',
+        user.id,
+        typeof request.body?.reason === 'string'
+          ? request.body.reason
+          : undefined
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry submitted successfully',
+          data: entry,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Mark a submitted KPI entry as reviewed
+   */
+  static async reviewEntry(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const entry = await KpiEntryService.transitionKpiEntry(
+        entryId,
+        'review',
+        user.id,
+        typeof request.body?.reason === 'string'
+          ? request.body.reason
+          : undefined
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry reviewed successfully',
+          data: entry,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve a reviewed KPI entry
+   */
+  static async approveEntry(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const entry = await KpiEntryService.transitionKpiEntry(
+        entryId,
+        'approve',
+        user.id,
+        typeof request.body?.reason === 'string'
+          ? request.body.reason
+          : undefined
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry approved successfully',
+          data: entry,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Return a KPI entry to the nodal officer with a reason
+   */
+  static async returnEntry(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const entry = await KpiEntryService.transitionKpiEntry(
+        entryId,
+        'return',
+        user.id,
+        typeof request.body?.reason === 'string'
+          ? request.body.reason
+          : undefined
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry returned successfully',
+          data: entry,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the change history of a KPI entry, optionally for a single item
+   */
+  static async getEntryHistory(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+      const { item } = request.query;
+
+      const history = await KpiEntryService.getKpiEntryHistory(
+        entryId,
+        user.id,
+        item as string | undefined
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry history fetched successfully',
+          data: history,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Grant a KPI entry extra time after its submission window closes
+   */
+  static async grantExtension(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const entry = await KpiEntryService.grantExtension(
+        entryId,
+        request.body,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry extension granted successfully',
+          data: entry,
+        },
+        201
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reopen a generated KPI entry for correction (collector-office only)
+   */
+  static async reopenEntry(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const entry = await KpiEntryService.transitionKpiEntry(
+        entryId,
+        'reopen',
+        user.id,
+        request.body.reason
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry reopened for correction successfully',
+          data: entry,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download the pre-filled value sheet of a template for a month
+   */
+  static async downloadBulkSheet(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { templateId, month, year, format: sheetFormat } = request.query;
+
+      if (!templateId || !month || !year) {
+        return Respond(
+          response,
+          {
+            message: 'templateId, month, and year are required',
+          },
+          400
+        );
+      }
+
+      const exportFormat = sheetFormat === 'xlsx' ? 'xlsx' : 'csv';
+      const sheet = await KpiEntryService.getBulkValueSheet(
+        templateId as string,
+        Number.parseInt(month as string),
+        Number.parseInt(year as string)
+      );
+      const content = await KpiEntryService.writeBulkValueSheet(
+        sheet,
+        exportFormat
+      );
+      const fileName = `kpi-values-${templateId}-${year}-${String(month).padStart(2, '0')}`;
+
+      response.setHeader(
+        'Content-Type',
+        exportFormat === 'xlsx'
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'text/csv; charset=utf-8'
+      );
+      response.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${fileName}.${exportFormat}"`
+      );
+      response.status(200).send(content);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Upload a filled value sheet, returns a row level report
+   */
+  static async uploadBulkSheet(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+
+      const result = await KpiEntryService.uploadBulkValueSheet(
+        request.body,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: result.applied
+            ? 'KPI value sheet applied successfully'
+            : 'KPI value sheet validated, no changes applied',
+          data: result,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Upload an evidence attachment to a value of an entry
+   */
+  static async uploadAttachment(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+      const name = request.params.name as string;
+
+      const attachment = await KpiEntryService.addValueAttachment(
+        entryId,
+        name,
+        request.body,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Attachment uploaded successfully',
+          data: attachment,
+        },
+        201
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the attachments of a value of an entry
+   */
+  static async getAttachments(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+      const name = request.params.name as string;
+
+      const attachments = await KpiEntryService.getValueAttachments(
+        entryId,
+        name,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Attachments retrieved successfully',
+          data: attachments,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download an attachment of a value of an entry
+   */
+  static async downloadAttachment(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+      const name = request.params.name as string;
+      const attachmentId = request.params.attachmentId as string;
+
+      const { attachment, content } = await KpiEntryService.getValueAttachment(
+        entryId,
+        name,
+        attachmentId,
+        user.id
+      );
+
+      response.setHeader('Content-Type', attachment.mimeType);
+      response.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${encodeURIComponent(attachment.fileName)}"`
+      );
+      response.setHeader('X-Checksum-SHA256', attachment.checksum);
+      response.status(200).send(content);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an attachment of a value of an entry
+   */
+  static async deleteAttachment(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+      const name = request.params.name as string;
+      const attachmentId = request.params.attachmentId as string;
+
+      const attachment = await KpiEntryService.deleteValueAttachment(
+        entryId,
+        name,
+        attachmentId,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Attachment deleted successfully',
+          data: attachment,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the comment threads of an entry, optionally of one value (?item=)
+   */
+  static async getComments(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+      const { item } = request.query;
+
+      const comments = await KpiEntryService.getEntryComments(
+        entryId,
+        user.id,
+        item as string | undefined
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'KPI entry comments retrieved successfully',
+          data: comments,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start a comment thread or reply to one
+   */
+  static async addComment(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const comment = await KpiEntryService.addEntryComment(
+        entryId,
+        request.body,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Comment added successfully',
+          data: comment,
+        },
+        201
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Resolve a comment thread
+   */
+  static async resolveComment(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+      const commentId = request.params.commentId as string;
+
+      const thread = await KpiEntryService.setCommentThreadResolved(
+        entryId,
+        commentId,
+        true,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Comment thread resolved successfully',
+          data: thread,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reopen a resolved comment thread
+   */
+  static async unresolveComment(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+      const commentId = request.params.commentId as string;
+
+      const thread = await KpiEntryService.setCommentThreadResolved(
+        entryId,
+        commentId,
+        false,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Comment thread reopened successfully',
+          data: thread,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Save the officer's self-assessment of their own entry
+   */
+  static async saveSelfAssessment(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const entry = await KpiEntryService.saveSelfAssessment(
+        entryId,
+        request.body.values,
+        user.id
+      );
+
+      return Respond(
+        response,
+        {
+          message: 'Self-assessment saved successfully',
+          data: entry,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the self-assessment of an entry next to its official values
+   */
+  static async getSelfAssessment(
+    request: Request,
+    response: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = request.user as User;
+      const entryId = request.params.entryId as string;
+
+      const result = await KpiEntryService.getSelfAssessment(entryId, user.id);
+
+      return Respond(
+        response,
+        {
+          message: 'Self-assessment retrieved successfully',
+          data: result,
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
 }
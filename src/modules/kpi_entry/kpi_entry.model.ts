@@ -1,5 +1,73 @@
 import { model, Schema } from 'mongoose';
 import z from 'zod';
+import { PERIOD_TYPES } from '@/lib/periods';
+
+/**
+ * Entry lifecycle:
+ * created -> initiated (values saved as draft) -> submitted (nodal officer)
+ * -> reviewed (SDM) -> approved (collector-office) -> generated (locked).
+ * Submitted or reviewed entries can be returned with a reason, returned
+ * entries are edited and submitted again. Collector-office can reopen a
+ * generated entry for correction, the corrected entry is locked again
+ * (relock) as soon as its values are saved.
+ */
+export const ENTRY_STATUSES = [
+  'created',
+  'initiated',
+  'submitted',
+  'reviewed',
+  'approved',
+  'returned',
+  'generated',
+  'correction',
+] as const;
+
+export const ENTRY_TRANSITIONS = [
+  'submit',
+  'review',
+  'approve',
+  'return',
+  'reopen',
+  'relock',
+] as const;
+
+// File types accepted as evidence on KPI values
+const ATTACHMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'text/csv',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+] as const;
+
+// Attachments kept per value
+export const MAX_ATTACHMENTS_PER_VALUE = 10;
+
+const zStatusChange = z.object({
+  from: z.enum(ENTRY_STATUSES),
+  to: z.enum(ENTRY_STATUSES),
+  action: z.enum(ENTRY_TRANSITIONS),
+  by: z.string().min(1),
+  role: z.string().optional(), // Member role of the actor at the time
+  reason: z.string().optional(),
+  at: z.date(),
+});
+
+// Evidence file attached to a value, the bytes live in the storage adapter
+const zAttachment = z.object({
+  id: z.string().min(1),
+  fileName: z.string().min(1),
+  mimeType: z.string().min(1),
+  size: z.number().min(0), // Bytes
+  checksum: z.string().min(1), // SHA-256, hex encoded
+  storageKey: z.string().min(1),
+  uploadedBy: z.string().min(1),
+  uploadedAt: z.date(),
+});
 
 const zValue = z.object({
   name: z.string().min(1),
@@ -7,17 +75,73 @@ const zValue = z.object({
   score: z.number(),
   comments: z.string().optional(),
   isByPassed: z.boolean().optional(),
+  attachments: z.array(zAttachment).optional(),
+});
+
+// Reporting period of an entry, following its template's frequency
+const zPeriod = z.object({
+  type: z.enum(PERIOD_TYPES),
+  key: z.string().min(1), // e.g. 2026-03, 2026-W11, 2026-Q1
+  startDate: z.date(),
+  endDate: z.date(), // Exclusive, the start of the next period
+});
+
+// Officer's own assessment of an entry, scored like the official values
+const zSelfAssessment = z.object({
+  values: z.array(
+    z.object({
+      name: z.string().min(1),
+      value: z.union([z.number(), z.string(), z.boolean()]),
+      score: z.number(),
+    })
+  ),
+  totalScore: z.number(),
+  normalizedScore: z.number().min(0).max(100),
+  submittedAt: z.date(),
+});
+
+const zSectionScore = z.object({
+  name: z.string().min(1),
+  score: z.number(), // Subtotal after applying the section cap
+  rawScore: z.number(), // Sum of the item scores in the section
+  maxMarks: z.number(), // Section cap, or the sum of the items' maxMarks
+});
+
+// Progress of the required (non-dynamic, non-formula) items of an entry
+const zCompleteness = z.object({
+  requiredCount: z.number().min(0),
+  providedCount: z.number().min(0),
+  percentage: z.number().min(0).max(100),
+  missing: z.array(z.string()), // Names of the required items still missing
+});
+
+// Admin-granted extra time to edit an entry after its submission window
+const zExtension = z.object({
+  reason: z.string().min(1),
+  expiresAt: z.date(),
+  grantedBy: z.string().min(1),
+  grantedAt: z.date(),
 });
 
 const zKpiEntry = z.object({
   id: z.string().min(1),
   kpiTemplateId: z.string().min(1),
+  templateVersion: z.number().min(1).optional(), // Template version the entry is scored against
   values: z.array(zValue),
-  totalScore: z.number(),
-  status: z.enum(['created', 'initiated', 'generated']).default('created'),
+  totalScore: z.number(), // Raw sum of item scores
+  normalizedScore: z.number().min(0).max(100).default(0), // Weighted score out of 100
+  sectionScores: z.array(zSectionScore).default([]), // Subtotals per template section
+  completeness: zCompleteness.optional(), // Set on every values save
+  status: z.enum(ENTRY_STATUSES).default('created'),
+  statusHistory: z.array(zStatusChange).default([]),
+  extensions: z.array(zExtension).default([]),
+  awaitingClarification: z.boolean().optional(), // Unresolved clarification requests
+  generatedAt: z.date().optional(), // When the entry was first locked, appeals run from it
+  selfAssessment: zSelfAssessment.optional(), // Kept apart from the official values
   createdBy: z.string().min(1),
   createdFor: z.string().min(1),
   jurisdiction: z.array(z.string()).optional(), // For multiple KPI reference users
+  period: zPeriod.optional(), // Missing on entries created before periods, which are monthly
   month: z.number().min(1).max(12), // 1-12
   year: z.number().min(2020), // Year
   kpirefs: z.string().optional(), // For multiple KPI reference users
@@ -29,36 +153,200 @@ const zKpiEntryCreate = zKpiEntry.omit({
   id: true,
   createdAt: true,
   totalScore: true,
+  normalizedScore: true,
+  sectionScores: true,
+  completeness: true,
+  statusHistory: true,
+  extensions: true,
+  awaitingClarification: true,
+  generatedAt: true,
+  selfAssessment: true,
   updatedAt: true,
   createdBy: true,
 });
 
+export const zKpiEntryRescore = z.object({
+  templateId: z.string().min(1),
+  month: z.number().min(1).max(12).optional(),
+  year: z.number().min(2020).optional(),
+  status: z.enum(ENTRY_STATUSES).optional(),
+  version: z.number().min(1).optional(), // Re-pins entries, defaults to each entry's pinned version
+  includeLocked: z.boolean().optional(), // Also rescore generated and reopened entries
+});
+
+export const zKpiEntryReturn = z.object({
+  reason: z.string().min(1),
+});
+
+export const zKpiEntryReopen = z.object({
+  reason: z.string().min(1), // Justification for correcting a generated entry
+});
+
+export const zKpiEntryExtension = z.object({
+  reason: z.string().min(1),
+  expiresAt: z.string().datetime({ offset: true }), // ISO date-time
+});
+
+export const zKpiEntryBulkUpload = z.object({
+  templateId: z.string().min(1),
+  month: z.number().min(1).max(12),
+  year: z.number().min(2020),
+  format: z.enum(['csv', 'xlsx']),
+  content: z.string().min(1), // CSV text or base64 encoded XLSX
+  mode: z.enum(['partial', 'all_or_nothing']).optional(), // Defaults to partial
+  draft: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+export const zKpiEntrySelfAssessment = z.object({
+  values: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        value: z.union([z.number(), z.string(), z.boolean()]),
+      })
+    )
+    .min(1),
+});
+
+export const zKpiEntryAttachmentUpload = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.enum(ATTACHMENT_MIME_TYPES),
+  content: z.string().min(1), // Base64 encoded file
+});
+
 export type KpiEntry = z.infer<typeof zKpiEntry>;
+export type EntryStatus = (typeof ENTRY_STATUSES)[number];
+export type EntryTransition = (typeof ENTRY_TRANSITIONS)[number];
+export type SectionScore = z.infer<typeof zSectionScore>;
+export type Completeness = z.infer<typeof zCompleteness>;
+export type Attachment = z.infer<typeof zAttachment>;
+export type SelfAssessment = z.infer<typeof zSelfAssessment>;
 export type KpiEntryCreate = z.infer<typeof zKpiEntryCreate>;
 
+const attachmentSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    fileName: { type: String, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    checksum: { type: String, required: true },
+    storageKey: { type: String, required: true },
+    uploadedBy: { type: String, required: true },
+    uploadedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
 const valueSchema = new Schema({
   name: { type: String, required: true },
   value: { type: Schema.Types.Mixed, required: true },
   score: { type: Number, required: true },
   comments: { type: String, required: false },
   isByPassed: { type: Boolean, default: false },
+  attachments: { type: [attachmentSchema], default: undefined },
 });
 
+const sectionScoreSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    score: { type: Number, required: true },
+    rawScore: { type: Number, required: true },
+    maxMarks: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const completenessSchema = new Schema(
+  {
+    requiredCount: { type: Number, required: true, min: 0 },
+    providedCount: { type: Number, required: true, min: 0 },
+    percentage: { type: Number, required: true, min: 0, max: 100 },
+    missing: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+const periodSchema = new Schema(
+  {
+    type: { type: String, enum: PERIOD_TYPES, required: true },
+    key: { type: String, required: true },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const selfAssessmentSchema = new Schema(
+  {
+    values: {
+      type: [
+        new Schema(
+          {
+            name: { type: String, required: true },
+            value: { type: Schema.Types.Mixed, required: true },
+            score: { type: Number, required: true },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    totalScore: { type: Number, required: true },
+    normalizedScore: { type: Number, default: 0, min: 0, max: 100 },
+    submittedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const statusChangeSchema = new Schema(
+  {
+    from: { type: String, enum: ENTRY_STATUSES, required: true },
+    to: { type: String, enum: ENTRY_STATUSES, required: true },
+    action: { type: String, enum: ENTRY_TRANSITIONS, required: true },
+    by: { type: String, required: true },
+    role: { type: String, required: false },
+    reason: { type: String, required: false },
+    at: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const extensionSchema = new Schema(
+  {
+    reason: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    grantedBy: { type: String, required: true },
+    grantedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
 const kpiEntrySchema = new Schema<KpiEntry>(
   {
     kpiTemplateId: { type: String, required: true },
+    templateVersion: { type: Number, required: false },
     values: { type: [valueSchema], required: true },
     totalScore: { type: Number, required: true },
+    normalizedScore: { type: Number, default: 0, min: 0, max: 100 },
+    sectionScores: { type: [sectionScoreSchema], default: [] },
+    completeness: { type: completenessSchema, required: false },
     status: {
       type: String,
-      enum: ['created', 'initiated', 'generated'],
+      enum: ENTRY_STATUSES,
       default: 'created',
       required: true,
     },
+    statusHistory: { type: [statusChangeSchema], default: [] },
+    extensions: { type: [extensionSchema], default: [] },
+    awaitingClarification: { type: Boolean, default: false },
+    generatedAt: { type: Date, required: false },
+    selfAssessment: { type: selfAssessmentSchema, required: false },
     createdBy: { type: String, required: true },
     createdFor: { type: String, required: true },
     jurisdiction: { type: [String], required: false }, // For multiple KPI reference users
     kpirefs: { type: String, required: false }, // For multiple KPI reference users
+    period: { type: periodSchema, required: false },
     month: { type: Number, required: true, min: 1, max: 12 },
     year: { type: Number, required: true, min: 2020 },
   },
@@ -67,4 +355,8 @@ const kpiEntrySchema = new Schema<KpiEntry>(
   }
 );
 
+kpiEntrySchema.index({ kpiTemplateId: 1, month: 1, year: 1, createdFor: 1 });
+kpiEntrySchema.index({ createdFor: 1, month: 1, year: 1 }); // Statistics without a template filter
+kpiEntrySchema.index({ kpiTemplateId: 1, 'period.key': 1 });
+
 export const KpiEntryModel = model<KpiEntry>('tbl_kpi_entries', kpiEntrySchema);
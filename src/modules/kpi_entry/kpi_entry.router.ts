@@ -1,5 +1,17 @@
 import { createRouter } from '@/configs/server.config';
 import { KpiEntryHandler } from './kpi_entry.handler';
+import { validateRequest } from '@/middlewares/zod-validate-request';
+import requireAdmin from '@/middlewares/requireAdmin';
+import {
+  zKpiEntryAttachmentUpload,
+  zKpiEntryBulkUpload,
+  zKpiEntryExtension,
+  zKpiEntryReopen,
+  zKpiEntryRescore,
+  zKpiEntryReturn,
+  zKpiEntrySelfAssessment,
+} from './kpi_entry.model';
+import { zKpiEntryCommentCreate } from './kpi_entry_comment.model';
 
 const router = createRouter();
 
@@ -9,10 +21,92 @@ router.post('/generate-default', KpiEntryHandler.generateDefaultEntries);
 // Update KPI entry values
 router.put('/:entryId/values', KpiEntryHandler.updateEntryValues);
 
+// Comment threads on an entry or its values, clarification requests
+router.get('/:entryId/comments', KpiEntryHandler.getComments);
+router.post(
+  '/:entryId/comments',
+  validateRequest({ body: zKpiEntryCommentCreate }),
+  KpiEntryHandler.addComment
+);
+router.post(
+  '/:entryId/comments/:commentId/resolve',
+  KpiEntryHandler.resolveComment
+);
+router.post(
+  '/:entryId/comments/:commentId/unresolve',
+  KpiEntryHandler.unresolveComment
+);
+
+// Evidence attachments of a value
+router.post(
+  '/:entryId/values/:name/attachments',
+  validateRequest({ body: zKpiEntryAttachmentUpload }),
+  KpiEntryHandler.uploadAttachment
+);
+router.get(
+  '/:entryId/values/:name/attachments',
+  KpiEntryHandler.getAttachments
+);
+router.get(
+  '/:entryId/values/:name/attachments/:attachmentId',
+  KpiEntryHandler.downloadAttachment
+);
+router.delete(
+  '/:entryId/values/:name/attachments/:attachmentId',
+  KpiEntryHandler.deleteAttachment
+);
+
+// Pre-filled value sheet of a template/month and its upload
+router.get('/bulk/sheet', KpiEntryHandler.downloadBulkSheet);
+router.post(
+  '/bulk/upload',
+  validateRequest({ body: zKpiEntryBulkUpload }),
+  KpiEntryHandler.uploadBulkSheet
+);
+
+// Officer's own assessment, kept apart from the official values
+router.put(
+  '/:entryId/self-assessment',
+  validateRequest({ body: zKpiEntrySelfAssessment }),
+  KpiEntryHandler.saveSelfAssessment
+);
+router.get('/:entryId/self-assessment', KpiEntryHandler.getSelfAssessment);
+
+// Review workflow: submit -> review -> approve, or return with a reason
+router.post('/:entryId/submit', KpiEntryHandler.submitEntry);
+router.post('/:entryId/review', KpiEntryHandler.reviewEntry);
+router.post('/:entryId/approve', KpiEntryHandler.approveEntry);
+router.post(
+  '/:entryId/return',
+  validateRequest({ body: zKpiEntryReturn }),
+  KpiEntryHandler.returnEntry
+);
+
+// Reopen a generated entry for correction, it locks again once saved
+router.post(
+  '/:entryId/reopen',
+  validateRequest({ body: zKpiEntryReopen }),
+  KpiEntryHandler.reopenEntry
+);
+
+// Extra time to edit an entry after its submission window (admin only)
+router.post(
+  '/:entryId/extensions',
+  requireAdmin,
+  validateRequest({ body: zKpiEntryExtension }),
+  KpiEntryHandler.grantExtension
+);
+
+// Item level change history of an entry
+router.get('/:entryId/history', KpiEntryHandler.getEntryHistory);
+
 // Get KPI entries for current user
 router.get('/my-entries', KpiEntryHandler.getMyEntries);
 router.get('/user-entries', KpiEntryHandler.getEntriesByUser);
 
+// Score and rank trend over a range of months
+router.get('/trends', KpiEntryHandler.getTrends);
+
 // Get KPI entry by jurisdiction
 router.get(
   '/jurisdiction/:jurisdiction',
@@ -25,4 +119,24 @@ router.post('/generate-final-reports', KpiEntryHandler.generateFinalReports);
 // Get KPI entries statistics
 router.get('/statistics', KpiEntryHandler.getKpiEntriesStatistics);
 
+// Per item averages, completion and bypass counts
+router.get('/statistics/items', KpiEntryHandler.getItemStatistics);
+
+// Fiscal year (April-March) and quarter statistics with year-to-date rankings
+router.get('/statistics/fiscal', KpiEntryHandler.getFiscalStatistics);
+
+// Rescore entries after a template rule change (admin only)
+router.post(
+  '/rescore/preview',
+  requireAdmin,
+  validateRequest({ body: zKpiEntryRescore }),
+  KpiEntryHandler.previewRescore
+);
+router.post(
+  '/rescore',
+  requireAdmin,
+  validateRequest({ body: zKpiEntryRescore }),
+  KpiEntryHandler.applyRescore
+);
+
 export default router;
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { KpiEntryService } from './kpi_entry.services';
+
+describe('kpi entry scoring', () => {
+  describe('findMatchingRule', () => {
+    const thresholds = [
+      { value: 50, score: 5 },
+      { value: 80, score: 8 },
+      { value: 100, score: 10 },
+    ];
+    const score = (
+      value: number,
+      mode: 'higher_is_better' | 'lower_is_better'
+    ) => KpiEntryService.findMatchingRule(value, [...thresholds], mode)?.score;
+
+    it('higher_is_better scores the highest threshold reached', () => {
+      expect(score(49.99, 'higher_is_better')).toBeUndefined();
+      expect(score(50, 'higher_is_better')).toBe(5);
+      expect(score(79.99, 'higher_is_better')).toBe(5);
+      expect(score(80, 'higher_is_better')).toBe(8);
+      expect(score(100, 'higher_is_better')).toBe(10);
+      expect(score(150, 'higher_is_better')).toBe(10);
+    });
+
+    it('lower_is_better scores the lowest threshold stayed within', () => {
+      expect(score(0, 'lower_is_better')).toBe(5);
+      expect(score(50, 'lower_is_better')).toBe(5);
+      expect(score(50.01, 'lower_is_better')).toBe(8);
+      expect(score(80, 'lower_is_better')).toBe(8);
+      expect(score(100, 'lower_is_better')).toBe(10);
+      expect(score(100.01, 'lower_is_better')).toBeUndefined();
+    });
+
+    it('ignores non numeric values and thresholds', () => {
+      expect(
+        KpiEntryService.findMatchingRule('80', thresholds, 'higher_is_better')
+      ).toBeUndefined();
+      expect(
+        KpiEntryService.findMatchingRule(
+          80,
+          [{ value: 'high', score: 10 }],
+          'higher_is_better'
+        )
+      ).toBeUndefined();
+    });
+  });
+
+  describe('calculateTargetScore', () => {
+    const config = { target: 100, tolerance: 5, falloff: 10 };
+
+    it('scores maxMarks at the target and the tolerance edges', () => {
+      expect(KpiEntryService.calculateTargetScore(100, 10, config)).toBe(10);
+      expect(KpiEntryService.calculateTargetScore(95, 10, config)).toBe(10);
+      expect(KpiEntryService.calculateTargetScore(105, 10, config)).toBe(10);
+    });
+
+    it('falls off linearly past the tolerance', () => {
+      expect(KpiEntryService.calculateTargetScore(105.5, 10, config)).toBe(9.5);
+      expect(KpiEntryService.calculateTargetScore(110, 10, config)).toBe(5);
+      expect(KpiEntryService.calculateTargetScore(90, 10, config)).toBe(5);
+    });
+
+    it('reaches 0 at tolerance + falloff and stays there', () => {
+      expect(KpiEntryService.calculateTargetScore(115, 10, config)).toBe(0);
+      expect(KpiEntryService.calculateTargetScore(85, 10, config)).toBe(0);
+      expect(KpiEntryService.calculateTargetScore(200, 10, config)).toBe(0);
+    });
+
+    it('drops straight to 0 outside the tolerance with falloff 0', () => {
+      const noFalloff = { target: 100, tolerance: 5, falloff: 0 };
+      expect(KpiEntryService.calculateTargetScore(105, 10, noFalloff)).toBe(10);
+      expect(KpiEntryService.calculateTargetScore(105.01, 10, noFalloff)).toBe(
+        0
+      );
+    });
+
+    it('only scores the exact target without a tolerance', () => {
+      expect(
+        KpiEntryService.calculateTargetScore(100, 10, { target: 100 })
+      ).toBe(10);
+      expect(
+        KpiEntryService.calculateTargetScore(101, 10, { target: 100 })
+      ).toBe(0);
+    });
+
+    it('scores 0 without a target', () => {
+      expect(KpiEntryService.calculateTargetScore(100, 10, {})).toBe(0);
+    });
+  });
+
+  describe('calculateLinearScore', () => {
+    const config = { min: 20, max: 120 };
+
+    it('interpolates between min and max', () => {
+      expect(KpiEntryService.calculateLinearScore(20, 10, config)).toBe(0);
+      expect(KpiEntryService.calculateLinearScore(70, 10, config)).toBe(5);
+      expect(KpiEntryService.calculateLinearScore(120, 10, config)).toBe(10);
+    });
+
+    it('clamps values below min and above max', () => {
+      expect(KpiEntryService.calculateLinearScore(-50, 10, config)).toBe(0);
+      expect(KpiEntryService.calculateLinearScore(19.99, 10, config)).toBe(0);
+      expect(KpiEntryService.calculateLinearScore(120.01, 10, config)).toBe(10);
+      expect(KpiEntryService.calculateLinearScore(500, 10, config)).toBe(10);
+    });
+
+    it('scores lower values higher when min is above max', () => {
+      const reversed = { min: 120, max: 20 };
+      expect(KpiEntryService.calculateLinearScore(120, 10, reversed)).toBe(0);
+      expect(KpiEntryService.calculateLinearScore(70, 10, reversed)).toBe(5);
+      expect(KpiEntryService.calculateLinearScore(20, 10, reversed)).toBe(10);
+      expect(KpiEntryService.calculateLinearScore(0, 10, reversed)).toBe(10);
+      expect(KpiEntryService.calculateLinearScore(200, 10, reversed)).toBe(0);
+    });
+
+    it('scores 0 without a range or with min equal to max', () => {
+      expect(KpiEntryService.calculateLinearScore(50, 10, { min: 0 })).toBe(0);
+      expect(
+        KpiEntryService.calculateLinearScore(50, 10, { min: 50, max: 50 })
+      ).toBe(0);
+    });
+  });
+});
@@ -1,15 +1,72 @@
-import { FilterQuery } from 'mongoose';
-import { KpiEntry, KpiEntryModel } from './kpi_entry.model';
+import { Buffer } from 'node:buffer';
+import { createHash, randomUUID } from 'node:crypto';
+import path from 'node:path';
+import { FilterQuery, isValidObjectId, PipelineStage } from 'mongoose';
+import {
+  Attachment,
+  Completeness,
+  EntryStatus,
+  EntryTransition,
+  KpiEntry,
+  KpiEntryModel,
+  MAX_ATTACHMENTS_PER_VALUE,
+  SectionScore,
+  SelfAssessment,
+} from './kpi_entry.model';
 import { KpiEntryCreate } from './kpi_entry.model';
+import {
+  KpiEntryCommentCreate,
+  KpiEntryCommentModel,
+} from './kpi_entry_comment.model';
 import { KpiTemplateService } from '../kpi_template/kpi_template.services';
+import {
+  ScoringConfig,
+  ScoringMode,
+  SubmissionWindow,
+  TemplateSection,
+} from '../kpi_template/kpi_template.model';
+import env from '@/configs/env';
 import logger from '@/configs/logger';
 import { MemberService } from '../members/members.service';
+import { MemberModel } from '../members/members.model';
 import APIError from '@/lib/errors/APIError';
 import { KpiAuditLogService } from '../kpi_audt_logs/kpi_audit_logs.services';
 import { format } from 'date-fns';
-import { filterExcludedMembers } from '../../lib/filters';
+import { excludedMembersQuery, filterExcludedMembers } from '../../lib/filters';
 import { DepartmentService } from '../departments/department.services';
 import { HttpErrorStatusCode } from '@/types/errors/errors.types';
+import {
+  DEFAULT_TIME_ZONE,
+  getZonedDate,
+  getZonedMonth,
+  startOfZonedDay,
+} from '@/lib/zoned-time';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { getStorage, StorageError } from '@/lib/storage';
+import { parseXlsx, toXlsx } from '@/lib/xlsx';
+import {
+  formatFiscalYear,
+  getFiscalMonths,
+  getFiscalQuarter,
+  getFiscalYear,
+  parseFiscalQuarter,
+  parseFiscalYear,
+} from '@/lib/fiscal-year';
+import {
+  getMonthlyPeriodKey,
+  getPeriod,
+  getPeriodByKey,
+  getPeriodMonth,
+  Period,
+  PeriodType,
+  shiftPeriod,
+} from '@/lib/periods';
+import {
+  evaluateFormula,
+  FormulaError,
+  getFormulaReferences,
+  sortFormulas,
+} from '@/lib/formula';
 
 interface ScoringRule {
   min?: number;
@@ -22,26 +79,203 @@ interface TemplateItem {
   name: string;
   description?: string;
   maxMarks: number;
-  kpiType: 'quantitative' | 'percentage' | 'binary' | 'qualitative' | 'score';
+  kpiType:
+    | 'quantitative'
+    | 'percentage'
+    | 'binary'
+    | 'qualitative'
+    | 'score'
+    | 'formula';
   kpiUnit?: string;
+  section?: string;
   isDynamic: boolean;
+  weight?: number;
+  formula?: string;
+  scoringMode?: ScoringMode;
+  scoringConfig?: ScoringConfig;
   scoringRules: ScoringRule[];
 }
 
+// Statuses in which nodal officers can still change the values
+const EDITABLE_STATUSES: EntryStatus[] = [
+  'created',
+  'initiated',
+  'returned',
+  'correction',
+];
+
+// Statuses of entries that are not submitted yet and may miss required items
+const DRAFT_STATUSES: EntryStatus[] = ['created', 'initiated', 'returned'];
+
+// Statuses of finalized entries, ranked together and only rescored on request
+const LOCKED_STATUSES: EntryStatus[] = ['generated', 'correction'];
+
+// Statuses a workflow action starts from and the status it moves the entry to
+const ENTRY_WORKFLOW: Record<
+  EntryTransition,
+  { from: EntryStatus[]; to: EntryStatus }
+> = {
+  submit: { from: ['initiated', 'returned'], to: 'submitted' },
+  review: { from: ['submitted'], to: 'reviewed' },
+  approve: { from: ['reviewed'], to: 'approved' },
+  return: { from: ['submitted', 'reviewed'], to: 'returned' },
+  reopen: { from: ['generated'], to: 'correction' },
+  relock: { from: ['correction'], to: 'generated' }, // Saving corrected values
+};
+
+// Leading columns of the bulk value sheet, followed by a column per item
+const BULK_SHEET_COLUMNS = [
+  'entryId',
+  'createdFor',
+  'name',
+  'kpirefs',
+  'period',
+  'status',
+];
+
+// Statuses from the lowest to the highest position in the statistics,
+// members without an entry for the month come last
+const STATUS_PRIORITY = [
+  'no-entry',
+  'created',
+  'initiated',
+  'returned',
+  'submitted',
+  'reviewed',
+  'approved',
+  'correction',
+  'generated',
+];
+
+// Lookup of the user (name and email) of a member in aggregations
+const MEMBER_USER_LOOKUP: PipelineStage.Lookup = {
+  $lookup: {
+    from: 'user',
+    let: {
+      userId: {
+        $convert: {
+          input: '$userId',
+          to: 'objectId',
+          onError: null,
+          onNull: null,
+        },
+      },
+    },
+    pipeline: [
+      { $match: { $expr: { $eq: ['$_id', '$$userId'] } } },
+      { $project: { name: 1, email: 1 } },
+    ],
+    as: 'user',
+  },
+};
+
+// Members the statistics cover, optionally of a department and role
+function getStatisticsMembersQuery(department?: string, role?: string) {
+  return {
+    $and: [
+      excludedMembersQuery,
+      {
+        ...(department ? { departmentSlug: department } : {}),
+        ...(role ? { role } : {}),
+      },
+    ],
+  };
+}
+
+// Member of the statistics with the name and email of its user
+interface StatisticsMember {
+  userId: string;
+  departmentSlug: string;
+  role: string;
+  name?: string;
+  email?: string;
+}
+
+// Result of the statistics aggregation
+interface StatisticsFacet {
+  rankings: {
+    memberId: string;
+    memberName: string;
+    memberEmail: string;
+    memberDepartment: string;
+    memberRole: string;
+    ranking: number;
+    totalScore: number;
+    normalizedScore: number;
+    sectionScores: SectionScore[];
+    sectionScore?: number;
+    hasEntry: boolean;
+    entryId?: string;
+    status: string;
+    kpiref: string;
+    jurisdiction: string[];
+    awaitingClarification: boolean;
+    selfAssessmentScore: number | null;
+    assessmentVariance: number | null;
+  }[];
+  total: { count: number }[];
+  statistics: {
+    totalRankings: number;
+    rankingsWithEntries: number;
+    averageScore: number | null;
+    averageNormalizedScore: number | null;
+    highestScore: number | null;
+    lowestScore: number | null;
+    awaitingClarificationCount: number;
+    selfAssessedCount: number;
+  }[];
+  sectionAverages: { _id: string; maxMarks: number; averageScore: number }[];
+}
+
+// Longest range of months a trend can cover
+const MAX_TREND_MONTHS = 24;
+
+// One period of a trend series
+interface TrendPoint {
+  period: string;
+  month: number;
+  year: number;
+  entryId: string;
+  status: EntryStatus;
+  totalScore: number;
+  normalizedScore: number;
+  rank: number | null;
+  rankOutOf: number;
+  items: { name: string; value: number | string | boolean; score: number }[];
+  change: {
+    fromPeriod: string;
+    totalScore: number;
+    normalizedScore: number;
+    rankMovement: number | null;
+    items: { name: string; score: number | null }[];
+  } | null;
+}
+
+// Value fields tracked in the item level history of an entry
+const VALUE_HISTORY_FIELDS = [
+  'value',
+  'score',
+  'isByPassed',
+  'comments',
+] as const;
+
 export class KpiEntryService {
   /**
    * Generate default KPI entries with "created" status for all members
-   * This creates reference entries that can be updated with scores during the month
+   * This creates reference entries that can be updated with scores during the
+   * period. Entries are generated for a period of the template's frequency,
+   * given by its key or, without one, the period the month starts in.
    */
   static async generateDefaultKpiEntries(
     templateId: string,
-    month: number,
-    year: number,
-    generatedBy: string = 'system'
+    month: number | undefined,
+    year: number | undefined,
+    generatedBy: string = 'system',
+    periodKey?: string
   ) {
     try {
       logger.info(
-        `Generating default KPI entries for template ${templateId}, month ${month}, year ${year}`
+        `Generating default KPI entries for template ${templateId}, ${periodKey ? `period ${periodKey}` : `month ${month}, year ${year}`}`
       );
 
       // Get the KPI template
@@ -54,6 +288,21 @@ export class KpiEntryService {
         });
       }
 
+      if (template.status === 'archived') {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'KPI Template Archived',
+          MESSAGE: `KPI template ${template.name} is archived, entries cannot be generated`,
+        });
+      }
+
+      const period = this.resolveTemplatePeriod(template, {
+        periodKey,
+        month,
+        year,
+      });
+      ({ month, year } = getPeriodMonth(period));
+
       // Get all members for the template role using departmentSlug directly
       const allMembers = await MemberService.getMembers({
         department: template.departmentSlug,
@@ -64,23 +313,27 @@ export class KpiEntryService {
 
       const filteredMembers = filterExcludedMembers(allMembers.docs);
 
-      // Check if entries already exist for this month
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0);
+      // Pin entries to the template version effective when the period starts
+      const templateVersion =
+        await KpiTemplateService.resolveKpiTemplateVersion(
+          templateId,
+          month,
+          year
+        );
+      const version = templateVersion?.version || template.version || 1;
 
+      // Check if entries already exist for this period
       const existingEntries = await KpiEntryModel.find({
         kpiTemplateId: templateId,
-        month,
-        year,
         createdFor: { $in: filteredMembers.map((m: any) => m.userId) },
-        createdAt: { $gte: startDate, $lte: endDate },
+        ...this.getPeriodFilter(period),
       });
 
       if (existingEntries.length > 0) {
         throw new APIError({
           STATUS: 409,
           TITLE: 'Entries Already Exist',
-          MESSAGE: `KPI entries for template ${templateId} already exist for ${month}/${year}`,
+          MESSAGE: `KPI entries for template ${templateId} already exist for ${period.key}`,
         });
       }
 
@@ -95,11 +348,14 @@ export class KpiEntryService {
           // Single KPI entry for users without KPI references
           entriesToCreate.push({
             kpiTemplateId: templateId,
+            templateVersion: version,
             createdFor: member.userId,
             values: [], // Empty values initially
             totalScore: 0,
+            normalizedScore: 0,
             status: 'created',
             createdBy: generatedBy,
+            period,
             month,
             year,
             // No jurisdiction field for users without KPI references
@@ -110,11 +366,14 @@ export class KpiEntryService {
           kpirefs.forEach((kpiref: string) => {
             entriesToCreate.push({
               kpiTemplateId: templateId,
+              templateVersion: version,
               createdFor: member.userId,
               values: [], // Empty values initially
               totalScore: 0,
+              normalizedScore: 0,
               status: 'created',
               createdBy: generatedBy,
+              period,
               month,
               year,
               kpirefs: kpiref,
@@ -141,6 +400,8 @@ export class KpiEntryService {
             oldValue: null,
             newValue: {
               templateId,
+              templateVersion: version,
+              period: period.key,
               month,
               year,
               entriesCount: createdEntries.length,
@@ -155,6 +416,8 @@ export class KpiEntryService {
         entriesCount: createdEntries.length,
         membersCount: filteredMembers.length,
         templateId,
+        templateVersion: version,
+        period,
         month,
         year,
         entries: createdEntries,
@@ -165,19 +428,92 @@ export class KpiEntryService {
     }
   }
 
+  /**
+   * Period of a template's frequency from a period key, or the period the
+   * given month starts in. Periods follow the template's time zone.
+   */
+  static resolveTemplatePeriod(
+    template: {
+      frequency: string;
+      submissionWindow?: Partial<SubmissionWindow>;
+    },
+    options: { periodKey?: string; month?: number; year?: number }
+  ): Period {
+    const timezone = template.submissionWindow?.timezone || DEFAULT_TIME_ZONE;
+    const frequency = template.frequency as PeriodType;
+
+    if (options.periodKey) {
+      const period = getPeriodByKey(options.periodKey, timezone);
+      if (!period || period.type !== frequency) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Period',
+          MESSAGE: `${options.periodKey} is not a ${frequency} period`,
+        });
+      }
+      return period;
+    }
+
+    if (!options.month || !options.year) {
+      throw new APIError({
+        STATUS: 400,
+        TITLE: 'Invalid Period',
+        MESSAGE: 'A period key or month and year are required',
+      });
+    }
+    return getPeriod(
+      frequency,
+      startOfZonedDay(options.year, options.month, 1, timezone),
+      timezone
+    );
+  }
+
+  /**
+   * Query matching the entries of a period. Entries created before periods
+   * were recorded are monthly and matched by their month and year.
+   */
+  static getPeriodFilter(period: Pick<Period, 'type' | 'key'>) {
+    if (period.type !== 'monthly') {
+      return { 'period.key': period.key };
+    }
+
+    const { month, year } = getPeriodMonth(period);
+    return {
+      $or: [
+        { 'period.key': period.key },
+        { period: { $exists: false }, month, year },
+      ],
+    };
+  }
+
+  /**
+   * Period key of an entry
+   */
+  static getEntryPeriodKey(entry: {
+    period?: { key: string };
+    month: number;
+    year: number;
+  }) {
+    return entry.period?.key || getMonthlyPeriodKey(entry.month, entry.year);
+  }
+
   /**
    * Update KPI entry values for a specific jurisdiction
-   * Only nodal officers can update entries for their assigned roles
+   * Only nodal officers can update entries for their assigned roles.
+   * Drafts may be partial: the given values are merged into the saved ones
+   * and required items are only enforced when the entry is submitted.
    */
   static async updateKpiEntryValues(
     entryId: string,
     values: Array<{
       name: string;
       value: number | string | boolean;
+      score?: number;
       comments?: string;
       isByPassed?: boolean;
     }>,
-    updatedBy: string
+    updatedBy: string,
+    options: { draft?: boolean } = {}
   ) {
     try {
       const entry = await KpiEntryModel.findById(entryId);
@@ -189,7 +525,8 @@ export class KpiEntryService {
         });
       }
 
-      // Check if entry can be updated (status must be 'created' or 'initiated')
+      // Check if entry can be updated (status must be 'created', 'initiated',
+      // 'returned' or 'correction')
       if (entry.status === 'generated') {
         throw new APIError({
           STATUS: 400,
@@ -198,23 +535,34 @@ export class KpiEntryService {
             'Cannot update KPI entry that has already been generated. The entry has been finalized.',
         });
       }
+      if (!EDITABLE_STATUSES.includes(entry.status)) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Entry Under Review',
+          MESSAGE: `Cannot update KPI entry that is ${entry.status}. Values can only be changed before submission or after the entry is returned.`,
+        });
+      }
 
-      // Check if we're still within the same month
-      const currentDate = new Date();
-      const entryMonth = entry.month;
-      const entryYear = entry.year;
-
-      if (
-        currentDate.getMonth() + 1 !== entryMonth ||
-        currentDate.getFullYear() !== entryYear
-      ) {
+      // Corrections of reopened entries are saved in full and locked again
+      const isCorrection = entry.status === 'correction';
+      if (isCorrection && options.draft) {
         throw new APIError({
           STATUS: 400,
-          TITLE: 'Update Period Expired',
-          MESSAGE: 'KPI entries can only be updated within the same month',
+          TITLE: 'Draft Not Allowed',
+          MESSAGE:
+            'Reopened entries are locked again when saved, drafts are not allowed',
         });
       }
 
+      // Check that the template's submission window (or an extension) is
+      // open, corrections ordered after the window are exempt
+      if (!isCorrection) {
+        const entryTemplate = await KpiTemplateService.getKpiTemplate(
+          entry.kpiTemplateId
+        );
+        this.assertSubmissionWindowOpen(entry, entryTemplate?.submissionWindow);
+      }
+
       const existingNodalOfficer =
         await MemberService.getMemberByUserId(updatedBy);
       const userRole = existingNodalOfficer?.role;
@@ -238,9 +586,10 @@ export class KpiEntryService {
         }
       }
 
-      // Get the KPI template for validation
-      const template = await KpiTemplateService.getKpiTemplate(
-        entry.kpiTemplateId
+      // Get the KPI template version the entry is pinned to for validation
+      const template = await KpiTemplateService.getScoringTemplate(
+        entry.kpiTemplateId,
+        entry.templateVersion
       );
       if (!template) {
         throw new APIError({
@@ -250,31 +599,97 @@ export class KpiEntryService {
         });
       }
 
-      // Validate and calculate scores
-      const validatedValues = this.validateAndCalculateScores(
-        values,
-        template.template
-      );
+      // Drafts only send the items that changed, keep the ones saved before
+      const entryValues = options.draft
+        ? this.mergeDraftValues(entry.values, values, template.template)
+        : values;
 
-      // Calculate total score
-      const totalScore = validatedValues.reduce(
-        (sum, value) => sum + value.score,
-        0
-      );
+      // Validate and calculate scores, completeness and totals
+      const {
+        values: validatedValues,
+        totalScore,
+        normalizedScore,
+        sectionScores,
+        completeness,
+      } = this.prepareKpiEntryValues(entryValues, template, {
+        partial: options.draft,
+      });
 
-      // Update the entry
-      const updatedEntry = await KpiEntryModel.findByIdAndUpdate(
-        entryId,
+      // Attachments stay with their values, files of removed values are deleted
+      const { values: savedValues, dropped: droppedAttachments } =
+        this.keepValueAttachments(entry.values, validatedValues);
+
+      // Ranks of the locked entries before the correction is applied
+      const rankBefore = isCorrection
+        ? await this.getLockedEntryRank(entry)
+        : undefined;
+
+      // Update the entry, unless a submit, review or lock changed its status
+      // since it was read
+      const updatedEntry = await KpiEntryModel.findOneAndUpdate(
+        { _id: entryId, status: entry.status },
         {
-          values: validatedValues,
+          values: savedValues,
           totalScore,
-          status: 'initiated', // Mark as initiated when values are added
+          normalizedScore,
+          sectionScores,
+          completeness,
+          // Mark as initiated when values are added, corrections lock again
+          status: isCorrection ? 'generated' : 'initiated',
+          ...(isCorrection && {
+            $push: {
+              statusHistory: {
+                from: 'correction',
+                to: 'generated',
+                action: 'relock',
+                by: updatedBy,
+                role: userRole,
+                at: new Date(),
+              },
+            },
+          }),
         },
         { new: true }
       );
+      if (!updatedEntry) {
+        throw new APIError({
+          STATUS: 409,
+          TITLE: 'Entry Status Changed',
+          MESSAGE: `KPI entry ${entryId} changed status while saving, please retry`,
+        });
+      }
+
+      if (isCorrection) {
+        const rankAfter = await this.getLockedEntryRank(updatedEntry);
+        KpiAuditLogService.create({
+          type: 'entry',
+          userId: updatedBy,
+          entityId: entryId,
+          action: 'relock',
+          changes: [
+            { field: 'status', oldValue: 'correction', newValue: 'generated' },
+            {
+              field: 'totalScore',
+              oldValue: entry.totalScore,
+              newValue: totalScore,
+            },
+            {
+              field: 'normalizedScore',
+              oldValue: entry.normalizedScore || 0,
+              newValue: normalizedScore,
+            },
+            { field: 'rank', oldValue: rankBefore, newValue: rankAfter },
+          ],
+        });
+      }
+
+      await this.deleteAttachmentFiles(droppedAttachments);
+
+      // Item level history of what changed in this save
+      this.logValueChanges(entry, validatedValues, totalScore, updatedBy);
 
       logger.info(
-        `Updated KPI entry ${entryId} with values by ${updatedBy} (${userRole})`
+        `Updated KPI entry ${entryId} with ${options.draft ? 'draft ' : ''}values by ${updatedBy} (${userRole})`
       );
       return updatedEntry;
     } catch (error) {
@@ -284,214 +699,421 @@ export class KpiEntryService {
   }
 
   /**
-   * Validate if a nodal officer has permission to update a specific entry
+   * Validate and score values against the template an entry is pinned to and
+   * compute completeness and totals, without saving anything. Partial values
+   * (drafts) skip the required items check.
    */
-  static async validateNodalOfficerPermission(
-    userRole: string,
-    userDepartment: string,
-    entry: any
-  ): Promise<boolean> {
-    if (userDepartment === 'collector-office') {
-      return true;
-    }
-    // Only nodal officers can update entries
-    if (!userRole.startsWith('nodalOfficer-')) {
-      return false;
-    }
+  static prepareKpiEntryValues(
+    values: Array<{
+      name: string;
+      value: number | string | boolean;
+      score?: number;
+      comments?: string;
+      isByPassed?: boolean;
+    }>,
+    template: { template: TemplateItem[]; sections?: TemplateSection[] },
+    options: { partial?: boolean } = {}
+  ) {
+    const validatedValues = this.validateAndCalculateScores(
+      values,
+      template.template,
+      options
+    );
 
-    // Get the target role from the nodal officer role
-    const targetRole = userRole.replace('nodalOfficer-', '');
+    return {
+      values: validatedValues,
+      completeness: this.calculateCompleteness(
+        validatedValues,
+        template.template
+      ),
+      // Raw, normalized and section total scores
+      ...this.calculateTotals(
+        validatedValues,
+        template.template,
+        template.sections
+      ),
+    };
+  }
 
-    // Get the member for the entry to check their role
-    try {
-      const member = await MemberService.getMemberByUserId(entry.createdFor);
-      if (!member) return false;
+  /**
+   * Write the item level history of a values save to the audit log
+   */
+  static logValueChanges(
+    entry: Pick<KpiEntry, 'values' | 'totalScore'> & { _id: unknown },
+    values: KpiEntry['values'],
+    totalScore: number,
+    updatedBy: string
+  ) {
+    const valueChanges = this.diffEntryValues(entry.values, values);
+    if (valueChanges.length === 0 && entry.totalScore === totalScore) return;
 
-      // Check if the member's role matches the nodal officer's target role
-      return member.role === targetRole;
-    } catch (error) {
-      logger.error('Error validating nodal officer permission:', error);
-      return false;
-    }
+    KpiAuditLogService.create({
+      type: 'entry',
+      userId: updatedBy,
+      entityId: String(entry._id),
+      action: 'update',
+      changes: [
+        ...valueChanges,
+        {
+          field: 'totalScore',
+          oldValue: entry.totalScore,
+          newValue: totalScore,
+        },
+      ],
+    });
   }
 
   /**
-   * Get KPI entries for a user with jurisdiction support
+   * Submission window of an entry: it opens at the start of the entry period
+   * (its month for entries without one) and closes at the end of
+   * `graceDays` days after the period, in the template's time zone.
+   * Extensions granted on the entry keep it open until the latest expiry.
    */
-  static async getKpiEntriesByUser(
-    userId?: string,
-    month?: number,
-    year?: number,
-    templateId?: string,
-    jurisdiction?: string,
-    status?: string,
-    page: number = 1,
-    limit: number = 10
+  static getSubmissionWindow(
+    entry: {
+      month: number;
+      year: number;
+      period?: { startDate: Date; endDate: Date };
+      extensions?: Array<{ expiresAt: Date }>;
+    },
+    submissionWindow?: Partial<SubmissionWindow>
   ) {
-    try {
-      const filter: FilterQuery<KpiEntry> = {};
+    const graceDays = submissionWindow?.graceDays ?? 0;
+    const timezone = submissionWindow?.timezone || DEFAULT_TIME_ZONE;
+    const extendedUntil = (entry.extensions || []).reduce<Date | null>(
+      (latest, extension) =>
+        !latest || extension.expiresAt > latest ? extension.expiresAt : latest,
+      null
+    );
 
-      if (status) filter.status = status;
-      if (userId) filter.createdFor = userId;
-      if (jurisdiction) filter.jurisdiction = jurisdiction;
-      if (month) filter.month = month;
-      if (year) filter.year = year;
-      if (templateId) filter.kpiTemplateId = templateId;
+    const opensAt =
+      entry.period?.startDate ||
+      startOfZonedDay(entry.year, entry.month, 1, timezone);
+    const end = entry.period
+      ? getZonedDate(entry.period.endDate, timezone)
+      : { year: entry.year, month: entry.month + 1, day: 1 };
 
-      // Calculate pagination
-      const skip = (page - 1) * limit;
+    return {
+      opensAt,
+      closesAt: startOfZonedDay(
+        end.year,
+        end.month,
+        end.day + graceDays,
+        timezone
+      ),
+      extendedUntil,
+      graceDays,
+      timezone,
+    };
+  }
 
-      const [entries, total] = await Promise.all([
-        KpiEntryModel.find(filter)
-          .skip(skip)
-          .limit(limit)
-          .sort({ createdAt: -1 }) // Sort by newest first
-          .lean(),
-        KpiEntryModel.countDocuments(filter),
-      ]);
+  /**
+   * Throw unless an entry can be edited or submitted right now
+   */
+  static assertSubmissionWindowOpen(
+    entry: {
+      month: number;
+      year: number;
+      period?: { key: string; startDate: Date; endDate: Date };
+      extensions?: Array<{ expiresAt: Date }>;
+    },
+    submissionWindow?: Partial<SubmissionWindow>,
+    now: Date = new Date()
+  ) {
+    const window = this.getSubmissionWindow(entry, submissionWindow);
+    const periodLabel = entry.period?.key || `${entry.month}/${entry.year}`;
 
-      return {
-        docs: entries,
-        total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit),
-        hasNextPage: page < Math.ceil(total / limit),
-        hasPreviousPage: page > 1,
-      };
-    } catch (error) {
-      logger.error('Error getting KPI entries by user:', error);
-      throw error;
+    if (now < window.opensAt) {
+      throw new APIError({
+        STATUS: 400,
+        TITLE: 'Update Period Not Started',
+        MESSAGE: `KPI entries for ${periodLabel} can only be updated from ${window.opensAt.toISOString()}`,
+      });
+    }
+
+    const isExtended = window.extendedUntil && now < window.extendedUntil;
+    if (now >= window.closesAt && !isExtended) {
+      throw new APIError({
+        STATUS: 400,
+        TITLE: 'Update Period Expired',
+        MESSAGE: `The submission window for ${periodLabel} closed at ${window.closesAt.toISOString()}`,
+        META: {
+          closesAt: window.closesAt,
+          extendedUntil: window.extendedUntil,
+        },
+      });
     }
   }
 
   /**
-   * Get KPI entries by jurisdiction for multiple KPI reference users
+   * Give an entry extra time after its submission window closes
    */
-  static async getKpiEntriesByJurisdiction(
-    userId: string,
-    jurisdiction: string,
-    month?: number,
-    year?: number,
-    templateId?: string
+  static async grantExtension(
+    entryId: string,
+    extension: { reason: string; expiresAt: string },
+    grantedBy: string
   ) {
     try {
-      const filter: any = {
-        createdFor: userId,
-        jurisdiction: { $in: [jurisdiction] }, // Check if jurisdiction exists in the array
+      const entry = await KpiEntryModel.findById(entryId).lean();
+      if (!entry) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Entry Not Found',
+          MESSAGE: `KPI entry not found: ${entryId}`,
+        });
+      }
+
+      if (entry.status === 'generated') {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Entry Already Generated',
+          MESSAGE: 'Cannot extend a KPI entry that has already been generated',
+        });
+      }
+
+      const expiresAt = new Date(extension.expiresAt);
+      if (expiresAt <= new Date()) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Extension',
+          MESSAGE: 'Extension expiry must be in the future',
+        });
+      }
+
+      const grantedExtension = {
+        reason: extension.reason,
+        expiresAt,
+        grantedBy,
+        grantedAt: new Date(),
       };
+      const updatedEntry = await KpiEntryModel.findByIdAndUpdate(
+        entryId,
+        { $push: { extensions: grantedExtension } },
+        { new: true }
+      ).lean();
 
-      if (month) filter.month = month;
-      if (year) filter.year = year;
-      if (templateId) filter.kpiTemplateId = templateId;
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId: grantedBy,
+        entityId: entryId,
+        action: 'extend',
+        changes: [
+          { field: 'extension', oldValue: null, newValue: grantedExtension },
+        ],
+      });
 
-      const entry = await KpiEntryModel.findOne(filter).lean();
-      return entry;
+      return updatedEntry;
     } catch (error) {
-      logger.error('Error getting KPI entry by jurisdiction:', error);
+      logger.error('Error granting KPI entry extension:', error);
       throw error;
     }
   }
 
   /**
-   * Validate and calculate scores for KPI values
+   * Save the officer's self-assessment of their own entry. It is scored
+   * against the same template version as the official values but stored
+   * apart from them, and can be changed until the entry is generated.
    */
-  static validateAndCalculateScores(
-    values: Array<{
-      name: string;
-      value: number | string | boolean;
-      score?: number;
-      comments?: string;
-      isByPassed?: boolean;
-    }>,
-    templateItems: TemplateItem[]
-  ): Array<{
-    name: string;
-    value: number | string | boolean;
-    score: number;
-    comments?: string;
-    isByPassed?: boolean;
-  }> {
-    // First validate that all required non-dynamic KPIs are provided
-    this.validateRequiredValues(values, templateItems);
+  static async saveSelfAssessment(
+    entryId: string,
+    values: Array<{ name: string; value: number | string | boolean }>,
+    userId: string
+  ) {
+    try {
+      const entry = await KpiEntryModel.findById(entryId).lean();
+      if (!entry) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Entry Not Found',
+          MESSAGE: `KPI entry not found: ${entryId}`,
+        });
+      }
 
-    const validatedValues = [];
+      if (entry.createdFor !== userId) {
+        throw new APIError({
+          STATUS: HttpErrorStatusCode.FORBIDDEN,
+          TITLE: 'Permission Denied',
+          MESSAGE: 'Officers can only self-assess their own entries',
+        });
+      }
 
-    for (const value of values) {
-      const templateItem = templateItems.find(
-        (item) => item.name === value.name
+      if (entry.status === 'generated' || entry.status === 'correction') {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Entry Already Generated',
+          MESSAGE:
+            'Self-assessments can only be changed before the entry is generated',
+        });
+      }
+
+      const template = await KpiTemplateService.getKpiTemplate(
+        entry.kpiTemplateId
       );
+      this.assertSubmissionWindowOpen(entry, template?.submissionWindow);
 
-      if (!templateItem) {
-        logger.warn(`Template item not found for KPI: ${value.name}`);
-        continue;
+      const scoringTemplate = await KpiTemplateService.getScoringTemplate(
+        entry.kpiTemplateId,
+        entry.templateVersion
+      );
+      if (!scoringTemplate) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${entry.kpiTemplateId}`,
+        });
       }
 
-      let score = 0;
+      // Officers assess any subset of items, bypassing is reserved to nodal officers
+      const scoredValues = this.validateAndCalculateScores(
+        values.map(({ name, value }) => ({ name, value })),
+        scoringTemplate.template,
+        { partial: true }
+      ).map(({ name, value, score }) => ({ name, value, score }));
+      const { totalScore, normalizedScore } = this.calculateTotals(
+        scoredValues,
+        scoringTemplate.template,
+        scoringTemplate.sections
+      );
 
-      // For bypassed items, use the provided score field as final score
-      if (value.isByPassed) {
-        if (value.score === undefined) {
-          throw new APIError({
-            STATUS: 400,
-            TITLE: 'Missing score field',
-            MESSAGE: `Bypassed KPI ${value.name} must have a score field`,
-          });
-        }
-        score = value.score;
-      } else {
-        // For non-bypassed items, ignore any provided score and calculate automatically
-        if (value.score !== undefined) {
-          logger.warn(
-            `Score field ignored for non-bypassed KPI: ${value.name}. Score will be calculated automatically.`
-          );
-        }
+      const selfAssessment: SelfAssessment = {
+        values: scoredValues,
+        totalScore,
+        normalizedScore,
+        submittedAt: new Date(),
+      };
+      const updatedEntry = await KpiEntryModel.findByIdAndUpdate(
+        entryId,
+        { selfAssessment },
+        { new: true }
+      ).lean();
 
-        // Validate value type
-        if (
-          templateItem.kpiType === 'quantitative' ||
-          templateItem.kpiType === 'percentage' ||
-          templateItem.kpiType === 'score'
-        ) {
-          if (typeof value.value !== 'number') {
-            throw new APIError({
-              STATUS: 400,
-              TITLE: 'Invalid value type',
-              MESSAGE: `KPI ${value.name} expects numeric value, got ${typeof value.value}`,
-            });
-          }
-        } else if (templateItem.kpiType === 'binary') {
-          if (typeof value.value !== 'boolean') {
-            throw new APIError({
-              STATUS: 400,
-              TITLE: 'Invalid value type',
-              MESSAGE: `KPI ${value.name} expects boolean value, got ${typeof value.value}`,
-            });
-          }
-        }
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId,
+        entityId: entryId,
+        action: 'update',
+        changes: [
+          ...this.diffEntryValues(
+            entry.selfAssessment?.values || [],
+            scoredValues
+          ).map((change) => ({
+            ...change,
+            field: `selfAssessment.${change.field}`,
+          })),
+          {
+            field: 'selfAssessment.totalScore',
+            oldValue: entry.selfAssessment?.totalScore ?? null,
+            newValue: totalScore,
+          },
+        ],
+      });
 
-        // Calculate score based on scoring rules
-        score = this.calculateScore(
-          value.value,
-          templateItem.scoringRules,
-          templateItem.kpiType,
-          value.name
-        );
-      }
+      return updatedEntry;
+    } catch (error) {
+      logger.error('Error saving KPI entry self-assessment:', error);
+      throw error;
+    }
+  }
 
-      validatedValues.push({
-        ...value,
-        score,
+  /**
+   * Official values and self-assessment of an entry side by side
+   */
+  static async getSelfAssessment(entryId: string, userId: string) {
+    const entry = await KpiEntryModel.findById(entryId).lean();
+    if (!entry) {
+      throw new APIError({
+        STATUS: 404,
+        TITLE: 'KPI Entry Not Found',
+        MESSAGE: `KPI entry not found: ${entryId}`,
       });
     }
+    await this.assertCanViewEntry(entry, userId);
 
-    return validatedValues;
+    return {
+      entryId,
+      createdFor: entry.createdFor,
+      status: entry.status,
+      selfAssessment: entry.selfAssessment || null,
+      comparison: this.compareAssessments(entry),
+    };
   }
 
   /**
-   * Validate that all non-dynamic KPI items are provided in the entry
+   * Variance between the self-assessment and the official values per item
+   * and in total (self minus official), or null without a self-assessment
    */
-  static validateRequiredValues(
+  static compareAssessments(entry: {
+    values: Array<{
+      name: string;
+      value: number | string | boolean;
+      score: number;
+    }>;
+    totalScore: number;
+    normalizedScore?: number;
+    selfAssessment?: SelfAssessment;
+  }) {
+    const { selfAssessment } = entry;
+    if (!selfAssessment) return null;
+
+    const names = [
+      ...new Set([
+        ...entry.values.map((value) => value.name),
+        ...selfAssessment.values.map((value) => value.name),
+      ]),
+    ];
+    const items = names.map((name) => {
+      const official = entry.values.find((value) => value.name === name);
+      const self = selfAssessment.values.find((value) => value.name === name);
+      return {
+        name,
+        officialValue: official?.value ?? null,
+        officialScore: official?.score ?? null,
+        selfValue: self?.value ?? null,
+        selfScore: self?.score ?? null,
+        scoreVariance:
+          official && self
+            ? Math.round((self.score - official.score) * 100) / 100
+            : null,
+      };
+    });
+
+    const variances = items
+      .map((item) => item.scoreVariance)
+      .filter((variance): variance is number => variance !== null);
+
+    return {
+      items,
+      officialTotalScore: entry.totalScore,
+      selfTotalScore: selfAssessment.totalScore,
+      totalScoreVariance:
+        Math.round((selfAssessment.totalScore - entry.totalScore) * 100) / 100,
+      normalizedScoreVariance:
+        Math.round(
+          (selfAssessment.normalizedScore - (entry.normalizedScore || 0)) * 100
+        ) / 100,
+      // Largest disagreement on a single item, in either direction
+      maxItemVariance: variances.reduce(
+        (max, variance) =>
+          Math.abs(variance) > Math.abs(max) ? variance : max,
+        0
+      ),
+    };
+  }
+
+  /**
+   * Merge draft values into the saved values of an entry. Given values
+   * replace saved values of the same item; computed formula values are
+   * dropped as they are recalculated, and saved scores are only kept for
+   * bypassed items.
+   */
+  static mergeDraftValues(
+    savedValues: Array<{
+      name: string;
+      value: number | string | boolean;
+      score: number;
+      comments?: string;
+      isByPassed?: boolean;
+    }>,
     values: Array<{
       name: string;
       value: number | string | boolean;
@@ -500,221 +1122,2970 @@ export class KpiEntryService {
       isByPassed?: boolean;
     }>,
     templateItems: TemplateItem[]
-  ): void {
-    const providedKpiNames = values.map((v) => v.name);
-    const missingNonDynamicKpis = templateItems
+  ) {
+    const givenNames = new Set(values.map((value) => value.name));
+    const formulaNames = new Set(
+      templateItems
+        .filter((item) => item.kpiType === 'formula')
+        .map((item) => item.name)
+    );
+
+    const keptValues = savedValues
       .filter(
-        (item) => !item.isDynamic && !providedKpiNames.includes(item.name)
+        (value) => !givenNames.has(value.name) && !formulaNames.has(value.name)
       )
-      .map((item) => item.name);
+      .map((value) => ({
+        name: value.name,
+        value: value.value,
+        comments: value.comments,
+        isByPassed: value.isByPassed,
+        ...(value.isByPassed ? { score: value.score } : {}),
+      }));
 
-    if (missingNonDynamicKpis.length > 0) {
-      throw new APIError({
-        STATUS: 400,
-        TITLE: 'Missing required values',
-        MESSAGE:
-          `Missing required values for non-dynamic KPIs: ${missingNonDynamicKpis.join(', ')}. ` +
-          `All KPI items with isDynamic: false must be provided in the entry.`,
-      });
-    }
+    return [...keptValues, ...values];
   }
 
   /**
-   * Calculate score based on value and scoring rules
+   * Item level changes between two sets of entry values, one change per
+   * changed field as `values[<item>].<field>`. Added and removed items show
+   * null as their old or new value.
    */
-  static calculateScore(
-    value: number | string | boolean,
-    scoringRules: ScoringRule[],
-    kpiType?: string,
-    kpiName?: string
-  ): number {
-    logger.debug(
-      `Calculating score for KPI "${kpiName}" (${kpiType}): value=${value}, rules=${JSON.stringify(scoringRules)}`
-    );
-
-    // For score type, the value IS the score (direct score entry)
-    if (kpiType === 'score' && typeof value === 'number') {
-      logger.debug(`Direct score entry: ${value}`);
-      return value;
-    }
+  static diffEntryValues(
+    oldValues: Array<{
+      name: string;
+      value: number | string | boolean;
+      score: number;
+      comments?: string;
+      isByPassed?: boolean;
+    }>,
+    newValues: Array<{
+      name: string;
+      value: number | string | boolean;
+      score: number;
+      comments?: string;
+      isByPassed?: boolean;
+    }>
+  ) {
+    const changes: { field: string; oldValue: unknown; newValue: unknown }[] =
+      [];
+    const names = [
+      ...new Set([
+        ...oldValues.map((value) => value.name),
+        ...newValues.map((value) => value.name),
+      ]),
+    ];
 
-    // For percentage type, find the highest scoring rule where value >= rule.value
-    if (kpiType === 'percentage' && typeof value === 'number') {
-      // Sort rules by value in descending order to find the highest applicable score
-      const sortedRules = [...scoringRules]
-        .filter((rule) => rule.value !== undefined)
-        .sort((a, b) => (b.value as number) - (a.value as number));
-
-      for (const rule of sortedRules) {
-        if (value >= (rule.value as number)) {
-          logger.debug(
-            `Percentage score calculated: ${rule.score} (${value}% >= ${rule.value}%)`
-          );
-          return rule.score;
-        }
-      }
+    for (const name of names) {
+      const oldValue = oldValues.find((value) => value.name === name);
+      const newValue = newValues.find((value) => value.name === name);
 
-      logger.warn(
-        `No percentage rule matched for KPI "${kpiName}" with value ${value}%. Available rules: ${JSON.stringify(scoringRules)}`
-      );
-      return 0;
-    }
+      for (const field of VALUE_HISTORY_FIELDS) {
+        const before = oldValue ? (oldValue[field] ?? null) : null;
+        const after = newValue ? (newValue[field] ?? null) : null;
+        // A missing bypass flag is the same as not bypassed
+        const isSame =
+          field === 'isByPassed'
+            ? Boolean(before) === Boolean(after)
+            : before === after;
 
-    // For other types, use existing rule-based logic
-    for (const rule of scoringRules) {
-      // For range-based rules (min/max)
-      if (rule.min !== undefined && rule.max !== undefined) {
-        if (
-          typeof value === 'number' &&
-          value >= rule.min &&
-          value <= rule.max
-        ) {
-          logger.debug(
-            `Score calculated: ${rule.score} (range: ${rule.min}-${rule.max})`
-          );
-          return rule.score;
+        if (!isSame) {
+          changes.push({
+            field: `values[${name}].${field}`,
+            oldValue: before,
+            newValue: after,
+          });
         }
       }
-      // For exact value rules
-      else if (rule.value !== undefined && value === rule.value) {
-        logger.debug(
-          `Score calculated: ${rule.score} (exact match: ${rule.value})`
-        );
-        return rule.score;
-      }
     }
 
-    logger.warn(
-      `No scoring rule matched for KPI "${kpiName}" with value ${value}. Available rules: ${JSON.stringify(scoringRules)}`
-    );
-    return 0; // Default score if no rule matches
-  }
-
-  // Additional CRUD methods
-  async getKpiEntry(id: string) {
-    const kpiEntry = await KpiEntryModel.findById(id).lean();
-    return kpiEntry;
+    return changes;
   }
 
-  async getKpiEntries(
-    filter: FilterQuery<KpiEntry> = {},
-    page: number = 1,
-    limit: number = 10
+  /**
+   * Timeline of everything that happened to an entry, oldest first, built
+   * from its audit logs. Value changes are split per item so the history of
+   * a single item (e.g. a disputed score) can be followed with `item`.
+   */
+  static async getKpiEntryHistory(
+    entryId: string,
+    userId: string,
+    item?: string
   ) {
-    const [kpiEntries, total] = await Promise.all([
-      KpiEntryModel.find(filter)
-        .skip((page - 1) * limit)
-        .limit(limit)
-        .lean(),
-      KpiEntryModel.countDocuments(filter),
-    ]);
+    try {
+      const entry = await KpiEntryModel.findById(entryId).lean();
+      if (!entry) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Entry Not Found',
+          MESSAGE: `KPI entry not found: ${entryId}`,
+        });
+      }
+      await this.assertCanViewEntry(entry, userId);
 
-    return {
-      docs: kpiEntries,
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-      hasNextPage: page < Math.ceil(total / limit),
-      hasPreviousPage: page > 1,
-    };
-  }
+      const { logs } = await KpiAuditLogService.find(
+        { type: 'entry', entityId: entryId },
+        1,
+        10000,
+        { createdAt: 1 }
+      );
 
-  async updateKpiEntry(id: string, kpiEntry: KpiEntryCreate) {
-    const updatedKpiEntry = await KpiEntryModel.findByIdAndUpdate(
-      id,
-      kpiEntry,
-      {
-        new: true,
+      // Resolve the people behind the changes once per user
+      const actors = new Map<string, { name: string | null; role?: string }>();
+      for (const userId of new Set(logs.map((log) => log.userId))) {
+        try {
+          const member = await MemberService.getMemberByUserId(userId);
+          actors.set(userId, {
+            name: member.user?.name || null,
+            role: member.role,
+          });
+        } catch (error) {
+          // System jobs and removed users have no member record
+          logger.debug(`No member found for history actor ${userId}:`, error);
+          actors.set(userId, { name: null });
+        }
       }
-    ).lean();
-    return updatedKpiEntry;
-  }
 
-  async deleteKpiEntry(id: string) {
-    const deletedKpiEntry = await KpiEntryModel.findByIdAndDelete(id);
-    return deletedKpiEntry;
+      const timeline = logs
+        .map((log) => {
+          const changes = log.changes
+            .map((change) => {
+              const match = /^values\[(.*)\]\.(\w+)$/.exec(change.field);
+              return {
+                item: match ? match[1] : undefined,
+                field: match ? match[2] : change.field,
+                oldValue: change.oldValue ?? null,
+                newValue: change.newValue ?? null,
+              };
+            })
+            .filter((change) => !item || change.item === item);
+
+          return {
+            at: log.createdAt,
+            action: log.action,
+            by: { id: log.userId, ...actors.get(log.userId) },
+            changes,
+          };
+        })
+        .filter((event) => event.changes.length > 0);
+
+      return {
+        entryId,
+        createdFor: entry.createdFor,
+        kpiTemplateId: entry.kpiTemplateId,
+        month: entry.month,
+        year: entry.year,
+        status: entry.status,
+        item: item || null,
+        timeline,
+      };
+    } catch (error) {
+      logger.error('Error getting KPI entry history:', error);
+      throw error;
+    }
   }
 
   /**
-   * Generate final KPI reports - sets status to 'generated' and locks entries
-   * This should be called at the end of the month to finalize all entries
+   * Comment threads of an entry, oldest first, with their replies.
+   * With `item` only the threads on that value are returned.
    */
-  static async generateFinalReports(
-    templateId: string,
-    month: number,
-    year: number,
-    generatedBy: string
+  static async getEntryComments(
+    entryId: string,
+    userId: string,
+    item?: string
   ) {
     try {
-      logger.info(
-        `Generating final KPI reports for template ${templateId}, month ${month}, year ${year}`
-      );
+      const entry = await this.getCommentEntry(entryId);
+      await this.assertCanViewEntry(entry, userId);
 
-      // Get all entries for the specified month that are not already generated
-      const entries = await KpiEntryModel.find({
-        kpiTemplateId: templateId,
-        month,
-        year,
-        status: { $in: ['created', 'initiated'] },
-      });
+      const comments = await KpiEntryCommentModel.find({
+        entryId,
+        ...(item && { item }),
+      })
+        .sort({ createdAt: 1 })
+        .lean();
 
-      if (entries.length === 0) {
+      const threads = comments
+        .filter((comment) => !comment.parentId)
+        .map((thread) => ({
+          ...thread,
+          replies: comments.filter(
+            (comment) => comment.parentId === thread._id.toString()
+          ),
+        }));
+
+      return {
+        entryId,
+        item: item || null,
+        awaitingClarification: entry.awaitingClarification || false,
+        threads,
+      };
+    } catch (error) {
+      logger.error('Error getting KPI entry comments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start a comment thread on an entry or one of its values, or reply to a
+   * thread. Threads started as clarification requests flag the entry as
+   * awaiting clarification until they are resolved.
+   */
+  static async addEntryComment(
+    entryId: string,
+    comment: KpiEntryCommentCreate,
+    authorId: string
+  ) {
+    try {
+      const entry = await this.getCommentEntry(entryId);
+      const author = await this.assertCanViewEntry(entry, authorId);
+
+      let item = comment.item;
+      if (comment.parentId) {
+        if (comment.clarification) {
+          throw new APIError({
+            STATUS: 400,
+            TITLE: 'Invalid Comment',
+            MESSAGE: 'Replies cannot be clarification requests',
+          });
+        }
+        // Replies belong to the thread, and the value, of their parent
+        const thread = await this.getCommentThread(entryId, comment.parentId);
+        item = thread.item;
+      } else if (item) {
+        const template = await KpiTemplateService.getScoringTemplate(
+          entry.kpiTemplateId,
+          entry.templateVersion
+        );
+        if (
+          !(template?.template as TemplateItem[] | undefined)?.some(
+            (templateItem) => templateItem.name === item
+          )
+        ) {
+          throw new APIError({
+            STATUS: 400,
+            TITLE: 'Invalid Comment',
+            MESSAGE: `${item} is not an item of the entry's KPI template`,
+          });
+        }
+      }
+
+      const created = await KpiEntryCommentModel.create({
+        entryId,
+        item,
+        parentId: comment.parentId,
+        body: comment.body,
+        authorId,
+        authorRole: author?.role,
+        isClarificationRequest: comment.clarification || false,
+      });
+
+      if (created.isClarificationRequest) {
+        await this.refreshAwaitingClarification(entryId);
+      }
+
+      return created;
+    } catch (error) {
+      logger.error('Error adding KPI entry comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve or unresolve a comment thread
+   */
+  static async setCommentThreadResolved(
+    entryId: string,
+    commentId: string,
+    resolved: boolean,
+    userId: string
+  ) {
+    try {
+      const entry = await this.getCommentEntry(entryId);
+      await this.assertCanViewEntry(entry, userId);
+
+      const thread = await this.getCommentThread(entryId, commentId);
+      if (thread.resolved === resolved) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: resolved ? 'Thread Already Resolved' : 'Thread Not Resolved',
+          MESSAGE: `Comment thread ${commentId} is ${resolved ? 'already resolved' : 'not resolved'}`,
+        });
+      }
+
+      const updatedThread = await KpiEntryCommentModel.findByIdAndUpdate(
+        commentId,
+        resolved
+          ? { resolved, resolvedBy: userId, resolvedAt: new Date() }
+          : { resolved, $unset: { resolvedBy: 1, resolvedAt: 1 } },
+        { new: true }
+      ).lean();
+
+      if (thread.isClarificationRequest) {
+        await this.refreshAwaitingClarification(entryId);
+      }
+
+      return updatedThread;
+    } catch (error) {
+      logger.error('Error resolving KPI entry comment thread:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Flag an entry as awaiting clarification while it has unresolved
+   * clarification requests
+   */
+  static async refreshAwaitingClarification(entryId: string) {
+    const pending = await KpiEntryCommentModel.exists({
+      entryId,
+      parentId: { $exists: false },
+      isClarificationRequest: true,
+      resolved: false,
+    });
+    await KpiEntryModel.updateOne(
+      { _id: entryId },
+      { awaitingClarification: !!pending }
+    );
+  }
+
+  static async getCommentEntry(entryId: string) {
+    const entry = await KpiEntryModel.findById(entryId).lean();
+    if (!entry) {
+      throw new APIError({
+        STATUS: 404,
+        TITLE: 'KPI Entry Not Found',
+        MESSAGE: `KPI entry not found: ${entryId}`,
+      });
+    }
+    return entry;
+  }
+
+  // First comment of a thread of the entry
+  static async getCommentThread(entryId: string, commentId: string) {
+    const thread = isValidObjectId(commentId)
+      ? await KpiEntryCommentModel.findOne({
+          _id: commentId,
+          entryId,
+        }).lean()
+      : null;
+    if (!thread || thread.parentId) {
+      throw new APIError({
+        STATUS: 404,
+        TITLE: 'Comment Thread Not Found',
+        MESSAGE: `Comment thread ${commentId} not found on entry ${entryId}`,
+      });
+    }
+    return thread;
+  }
+
+  /**
+   * Attach an evidence file to a saved value of an entry. The file is
+   * written through the storage adapter and its reference (name, type,
+   * size, SHA-256 checksum and storage key) is stored on the value.
+   */
+  static async addValueAttachment(
+    entryId: string,
+    name: string,
+    file: { fileName: string; mimeType: string; content: string },
+    uploadedBy: string
+  ) {
+    try {
+      const { entry, value } = await this.getAttachmentValue(entryId, name);
+      await this.assertCanChangeAttachments(entry, uploadedBy);
+
+      if ((value.attachments || []).length >= MAX_ATTACHMENTS_PER_VALUE) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Too Many Attachments',
+          MESSAGE: `A value can have at most ${MAX_ATTACHMENTS_PER_VALUE} attachments`,
+        });
+      }
+
+      const content = Buffer.from(file.content, 'base64');
+      if (content.length === 0) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Empty Attachment',
+          MESSAGE: 'Attachment content must be a non-empty base64 string',
+        });
+      }
+      if (content.length > env.ATTACHMENT_MAX_SIZE_MB * 1024 * 1024) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Attachment Too Large',
+          MESSAGE: `Attachments can be at most ${env.ATTACHMENT_MAX_SIZE_MB} MB`,
+        });
+      }
+
+      const id = randomUUID();
+      const attachment: Attachment = {
+        id,
+        fileName: path.basename(file.fileName),
+        mimeType: file.mimeType,
+        size: content.length,
+        checksum: createHash('sha256').update(content).digest('hex'),
+        storageKey: `kpi-entries/${entryId}/${id}`,
+        uploadedBy,
+        uploadedAt: new Date(),
+      };
+
+      const storage = getStorage();
+      await storage.put(attachment.storageKey, content, attachment.mimeType);
+
+      const result = await KpiEntryModel.updateOne(
+        { _id: entryId, status: entry.status, 'values.name': name },
+        { $push: { 'values.$.attachments': attachment } }
+      );
+      if (result.matchedCount === 0) {
+        await storage.delete(attachment.storageKey);
+        throw new APIError({
+          STATUS: HttpErrorStatusCode.CONFLICT,
+          TITLE: 'Entry Changed',
+          MESSAGE: `KPI entry ${entryId} changed while the attachment was uploaded, try again`,
+        });
+      }
+
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId: uploadedBy,
+        entityId: entryId,
+        action: 'update',
+        changes: [
+          {
+            field: `values[${name}].attachments`,
+            oldValue: null,
+            newValue: this.describeAttachment(attachment),
+          },
+        ],
+      });
+
+      return attachment;
+    } catch (error) {
+      logger.error('Error adding KPI value attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the attachments of a value
+   */
+  static async getValueAttachments(
+    entryId: string,
+    name: string,
+    userId: string
+  ) {
+    const { entry, value } = await this.getAttachmentValue(entryId, name);
+    await this.assertCanViewEntry(entry, userId);
+    return value.attachments || [];
+  }
+
+  /**
+   * Read an attachment of a value with its content
+   */
+  static async getValueAttachment(
+    entryId: string,
+    name: string,
+    attachmentId: string,
+    userId: string
+  ) {
+    try {
+      const { entry, value } = await this.getAttachmentValue(entryId, name);
+      await this.assertCanViewEntry(entry, userId);
+
+      const attachment = this.findAttachment(value, attachmentId);
+      let content: Buffer;
+      try {
+        content = await getStorage().get(attachment.storageKey);
+      } catch (error) {
+        if (!(error instanceof StorageError)) throw error;
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'Attachment File Missing',
+          MESSAGE: `The file of attachment ${attachmentId} is missing from storage`,
+        });
+      }
+
+      return { attachment, content };
+    } catch (error) {
+      logger.error('Error getting KPI value attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an attachment from a value and delete its file
+   */
+  static async deleteValueAttachment(
+    entryId: string,
+    name: string,
+    attachmentId: string,
+    deletedBy: string
+  ) {
+    try {
+      const { entry, value } = await this.getAttachmentValue(entryId, name);
+      await this.assertCanChangeAttachments(entry, deletedBy);
+
+      const attachment = this.findAttachment(value, attachmentId);
+      // The file is only deleted once the attachment is removed from the
+      // entry, which must not have been locked or removed it meanwhile
+      const result = await KpiEntryModel.updateOne(
+        { _id: entryId, status: entry.status, 'values.name': name },
+        { $pull: { 'values.$.attachments': { id: attachmentId } } }
+      );
+      if (result.modifiedCount !== 1) {
+        throw new APIError({
+          STATUS: HttpErrorStatusCode.CONFLICT,
+          TITLE: 'Entry Changed',
+          MESSAGE: `KPI entry ${entryId} changed while the attachment was deleted, try again`,
+        });
+      }
+      await getStorage().delete(attachment.storageKey);
+
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId: deletedBy,
+        entityId: entryId,
+        action: 'update',
+        changes: [
+          {
+            field: `values[${name}].attachments`,
+            oldValue: this.describeAttachment(attachment),
+            newValue: null,
+          },
+        ],
+      });
+
+      return attachment;
+    } catch (error) {
+      logger.error('Error deleting KPI value attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load an entry and the saved value attachments are requested for
+   */
+  static async getAttachmentValue(entryId: string, name: string) {
+    const entry = await KpiEntryModel.findById(entryId).lean();
+    if (!entry) {
+      throw new APIError({
+        STATUS: 404,
+        TITLE: 'KPI Entry Not Found',
+        MESSAGE: `KPI entry not found: ${entryId}`,
+      });
+    }
+
+    const value = entry.values.find((value) => value.name === name);
+    if (!value) {
+      throw new APIError({
+        STATUS: 404,
+        TITLE: 'KPI Value Not Found',
+        MESSAGE: `No value saved for ${name}, save a value before attaching evidence`,
+      });
+    }
+
+    return { entry, value };
+  }
+
+  static findAttachment(
+    value: { name: string; attachments?: Attachment[] },
+    attachmentId: string
+  ) {
+    const attachment = (value.attachments || []).find(
+      (attachment) => attachment.id === attachmentId
+    );
+    if (!attachment) {
+      throw new APIError({
+        STATUS: 404,
+        TITLE: 'Attachment Not Found',
+        MESSAGE: `Attachment ${attachmentId} not found on ${value.name}`,
+      });
+    }
+    return attachment;
+  }
+
+  // Attachment reference as recorded in the audit log
+  static describeAttachment(attachment: Attachment) {
+    return {
+      id: attachment.id,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      checksum: attachment.checksum,
+    };
+  }
+
+  /**
+   * Attachments can be changed by the same people and in the same statuses
+   * and submission window as the values
+   */
+  static async assertCanChangeAttachments(entry: KpiEntry, userId: string) {
+    if (!EDITABLE_STATUSES.includes(entry.status)) {
+      throw new APIError({
+        STATUS: 400,
+        TITLE: 'Entry Not Editable',
+        MESSAGE: `Cannot change the attachments of a KPI entry that is ${entry.status}`,
+      });
+    }
+
+    if (entry.status !== 'correction') {
+      const template = await KpiTemplateService.getKpiTemplate(
+        entry.kpiTemplateId
+      );
+      this.assertSubmissionWindowOpen(entry, template?.submissionWindow);
+    }
+
+    const member = await MemberService.getMemberByUserId(userId);
+    if (
+      member?.role &&
+      member.departmentSlug &&
+      !(await this.validateNodalOfficerPermission(
+        member.role,
+        member.departmentSlug,
+        entry
+      ))
+    ) {
+      throw new APIError({
+        STATUS: HttpErrorStatusCode.FORBIDDEN,
+        TITLE: 'Permission Denied',
+        MESSAGE:
+          'Only nodal officers can change the attachments of KPI entries for their assigned roles',
+      });
+    }
+  }
+
+  /**
+   * An entry's attachments and comments can be read by the member the entry
+   * is for, the nodal officers who can update it and the reviewers.
+   * Returns the member record of the user.
+   */
+  static async assertCanViewEntry(entry: KpiEntry, userId: string) {
+    const member = await MemberService.getMemberByUserId(userId);
+    const canView =
+      entry.createdFor === userId ||
+      (!!member?.role &&
+        !!member.departmentSlug &&
+        (member.role.toLowerCase() === 'sdm' ||
+          (await this.validateNodalOfficerPermission(
+            member.role,
+            member.departmentSlug,
+            entry
+          ))));
+
+    if (!canView) {
+      throw new APIError({
+        STATUS: HttpErrorStatusCode.FORBIDDEN,
+        TITLE: 'Permission Denied',
+        MESSAGE: 'You are not allowed to view this KPI entry',
+      });
+    }
+
+    return member;
+  }
+
+  /**
+   * Carry the attachments of the saved values over to the values being
+   * saved - attachments are only changed through the attachment endpoints.
+   * Returns the attachments of saved values that are no longer present.
+   */
+  static keepValueAttachments<T extends { name: string }>(
+    savedValues: Array<{ name: string; attachments?: Attachment[] }>,
+    values: T[]
+  ) {
+    const names = new Set(values.map((value) => value.name));
+    const dropped = savedValues
+      .filter((saved) => !names.has(saved.name))
+      .flatMap((saved) => saved.attachments || []);
+
+    return {
+      values: values.map((value) => {
+        const saved = savedValues.find((saved) => saved.name === value.name);
+        const kept: T & { attachments?: Attachment[] } = {
+          ...value,
+          attachments: saved?.attachments,
+        };
+        if (!kept.attachments?.length) delete kept.attachments;
+        return kept;
+      }),
+      dropped,
+    };
+  }
+
+  /**
+   * Delete the files of attachments whose values were removed
+   */
+  static async deleteAttachmentFiles(attachments: Attachment[]) {
+    const storage = getStorage();
+    for (const attachment of attachments) {
+      try {
+        await storage.delete(attachment.storageKey);
+      } catch (error) {
+        logger.warn(
+          `Failed to delete attachment file ${attachment.storageKey}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate if a nodal officer has permission to update a specific entry
+   */
+  static async validateNodalOfficerPermission(
+    userRole: string,
+    userDepartment: string,
+    entry: any
+  ): Promise<boolean> {
+    if (userDepartment === 'collector-office') {
+      return true;
+    }
+    // Only nodal officers can update entries
+    if (!userRole.startsWith('nodalOfficer-')) {
+      return false;
+    }
+
+    // Get the target role from the nodal officer role
+    const targetRole = userRole.replace('nodalOfficer-', '');
+
+    // Get the member for the entry to check their role
+    try {
+      const member = await MemberService.getMemberByUserId(entry.createdFor);
+      if (!member) return false;
+
+      // Check if the member's role matches the nodal officer's target role
+      return member.role === targetRole;
+    } catch (error) {
+      logger.error('Error validating nodal officer permission:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Move an entry through the review workflow. The action must be allowed
+   * from the entry's current status and for the actor's role; every
+   * transition is recorded on the entry with actor, role and timestamp.
+   */
+  static async transitionKpiEntry(
+    entryId: string,
+    action: EntryTransition,
+    actorId: string,
+    reason?: string
+  ) {
+    try {
+      const entry = await KpiEntryModel.findById(entryId).lean();
+      if (!entry) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Entry Not Found',
+          MESSAGE: `KPI entry not found: ${entryId}`,
+        });
+      }
+
+      const { from, to } = ENTRY_WORKFLOW[action];
+      if (!from.includes(entry.status)) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Status Transition',
+          MESSAGE: `Cannot ${action} a KPI entry that is ${entry.status}, it must be ${from.join(' or ')}`,
+        });
+      }
+
+      // Drafts may be partial, submitted entries must have every required item
+      if (action === 'submit') {
+        const entryTemplate = await KpiTemplateService.getKpiTemplate(
+          entry.kpiTemplateId
+        );
+        this.assertSubmissionWindowOpen(entry, entryTemplate?.submissionWindow);
+
+        const template = await KpiTemplateService.getScoringTemplate(
+          entry.kpiTemplateId,
+          entry.templateVersion
+        );
+        if (template) {
+          this.validateRequiredValues(entry.values, template.template);
+        }
+      }
+
+      if ((action === 'return' || action === 'reopen') && !reason) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Reason Required',
+          MESSAGE: `A reason is required to ${action} a KPI entry`,
+        });
+      }
+
+      const actor = await MemberService.getMemberByUserId(actorId);
+      const hasPermission = await this.hasTransitionPermission(
+        action,
+        actorId,
+        actor?.role,
+        actor?.departmentSlug,
+        entry
+      );
+      if (!hasPermission) {
+        throw new APIError({
+          STATUS: HttpErrorStatusCode.FORBIDDEN,
+          TITLE: 'Permission Denied',
+          MESSAGE: `You are not allowed to ${action} this KPI entry`,
+        });
+      }
+
+      const statusChange = {
+        from: entry.status,
+        to,
+        action,
+        by: actorId,
+        role: actor?.role,
+        reason,
+        at: new Date(),
+      };
+
+      // Only transition if nobody changed the status in the meantime
+      const updatedEntry = await KpiEntryModel.findOneAndUpdate(
+        { _id: entryId, status: entry.status },
+        { status: to, $push: { statusHistory: statusChange } },
+        { new: true }
+      ).lean();
+      if (!updatedEntry) {
+        throw new APIError({
+          STATUS: 409,
+          TITLE: 'Entry Status Changed',
+          MESSAGE: `KPI entry ${entryId} changed status while processing, please retry`,
+        });
+      }
+
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId: actorId,
+        entityId: entryId,
+        action,
+        changes: [
+          { field: 'status', oldValue: entry.status, newValue: to },
+          ...(reason
+            ? [{ field: 'reason', oldValue: null, newValue: reason }]
+            : []),
+        ],
+      });
+
+      logger.info(
+        `KPI entry ${entryId} moved from ${entry.status} to ${to} by ${actorId} (${actor?.role})`
+      );
+      return updatedEntry;
+    } catch (error) {
+      logger.error(`Error trying to ${action} KPI entry:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Role guards of the review workflow:
+   * - submit: nodal officers of the entry's role (and collector-office)
+   * - review: SDMs and collector-office
+   * - approve: collector-office only
+   * - return: SDMs and collector-office
+   * - reopen: collector-office only
+   * Reviewers can never act on their own entries.
+   */
+  static async hasTransitionPermission(
+    action: EntryTransition,
+    actorId: string,
+    role: string | undefined,
+    department: string | undefined,
+    entry: KpiEntry
+  ): Promise<boolean> {
+    if (!role || !department) return false;
+
+    const isCollectorOffice = department === 'collector-office';
+    const isSdm = role.toLowerCase() === 'sdm';
+    const isOwnEntry = entry.createdFor === actorId;
+
+    switch (action) {
+      case 'submit':
+        return this.validateNodalOfficerPermission(role, department, entry);
+      case 'review':
+      case 'return':
+        return (isSdm || isCollectorOffice) && !isOwnEntry;
+      case 'approve':
+        return isCollectorOffice && !isOwnEntry;
+      case 'reopen':
+        return isCollectorOffice;
+      case 'relock':
+        // Happens when the corrected values are saved
+        return false;
+    }
+  }
+
+  /**
+   * Get KPI entries for a user with jurisdiction support
+   */
+  static async getKpiEntriesByUser(
+    userId?: string,
+    month?: number,
+    year?: number,
+    templateId?: string,
+    jurisdiction?: string,
+    status?: string,
+    page: number = 1,
+    limit: number = 10
+  ) {
+    try {
+      const filter: FilterQuery<KpiEntry> = {};
+
+      if (status) filter.status = status;
+      if (userId) filter.createdFor = userId;
+      if (jurisdiction) filter.jurisdiction = jurisdiction;
+      if (month) filter.month = month;
+      if (year) filter.year = year;
+      if (templateId) filter.kpiTemplateId = templateId;
+
+      // Calculate pagination
+      const skip = (page - 1) * limit;
+
+      const [entries, total] = await Promise.all([
+        KpiEntryModel.find(filter)
+          .skip(skip)
+          .limit(limit)
+          .sort({ createdAt: -1 }) // Sort by newest first
+          .lean(),
+        KpiEntryModel.countDocuments(filter),
+      ]);
+
+      return {
+        docs: entries.map((entry) => ({
+          ...entry,
+          assessmentComparison: this.compareAssessments(entry),
+        })),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+        hasNextPage: page < Math.ceil(total / limit),
+        hasPreviousPage: page > 1,
+      };
+    } catch (error) {
+      logger.error('Error getting KPI entries by user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get KPI entries by jurisdiction for multiple KPI reference users
+   */
+  static async getKpiEntriesByJurisdiction(
+    userId: string,
+    jurisdiction: string,
+    month?: number,
+    year?: number,
+    templateId?: string
+  ) {
+    try {
+      const filter: any = {
+        createdFor: userId,
+        jurisdiction: { $in: [jurisdiction] }, // Check if jurisdiction exists in the array
+      };
+
+      if (month) filter.month = month;
+      if (year) filter.year = year;
+      if (templateId) filter.kpiTemplateId = templateId;
+
+      const entry = await KpiEntryModel.findOne(filter).lean();
+      return (
+        entry && {
+          ...entry,
+          assessmentComparison: this.compareAssessments(entry),
+        }
+      );
+    } catch (error) {
+      logger.error('Error getting KPI entry by jurisdiction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Score trend of the entries of a user, kpiref or jurisdiction over a
+   * range of months: one series per officer, kpiref and template with the
+   * total and item scores and the rank of every period, and the change
+   * from the previous period. Ranks are among the locked (generated or
+   * reopened) entries of the template and period, null until generated.
+   */
+  static async getKpiEntryTrends(options: {
+    userId?: string;
+    kpiref?: string;
+    jurisdiction?: string;
+    templateId?: string;
+    from?: string;
+    to?: string;
+    months?: number;
+  }) {
+    try {
+      if (!options.userId && !options.kpiref && !options.jurisdiction) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Missing Trend Filter',
+          MESSAGE: 'A userId, kpiref or jurisdiction is required',
+        });
+      }
+
+      // Range of months, the last `months` (6 by default) up to `to`
+      const parseMonth = (key: string | undefined, name: string) => {
+        if (!key) return undefined;
+        const period = getPeriodByKey(key);
+        if (!period || period.type !== 'monthly') {
+          throw new APIError({
+            STATUS: 400,
+            TITLE: 'Invalid Trend Range',
+            MESSAGE: `${name} must be a month like 2026-03, received: ${key}`,
+          });
+        }
+        return period;
+      };
+      if (
+        options.months !== undefined &&
+        !(Number.isInteger(options.months) && options.months > 0)
+      ) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Trend Range',
+          MESSAGE: `months must be a positive number, received: ${options.months}`,
+        });
+      }
+      const to = parseMonth(options.to, 'to') || getPeriod('monthly');
+      const from =
+        parseMonth(options.from, 'from') ||
+        shiftPeriod(to, -((options.months || 6) - 1));
+      const months: { month: number; year: number }[] = [];
+      for (
+        let period = from;
+        period.key <= to.key && months.length <= MAX_TREND_MONTHS;
+        period = shiftPeriod(period, 1)
+      ) {
+        months.push(getPeriodMonth(period));
+      }
+      if (months.length === 0 || months.length > MAX_TREND_MONTHS) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Trend Range',
+          MESSAGE: `The range must cover 1 to ${MAX_TREND_MONTHS} months, from ${from.key} to ${to.key}`,
+        });
+      }
+
+      const filter: FilterQuery<KpiEntry> = {
+        status: { $ne: 'created' }, // Entries without saved values
+        $or: months.map(({ month, year }) => ({ month, year })),
+      };
+      if (options.userId) filter.createdFor = options.userId;
+      if (options.kpiref) filter.kpirefs = options.kpiref;
+      if (options.jurisdiction) filter.jurisdiction = options.jurisdiction;
+      if (options.templateId) filter.kpiTemplateId = options.templateId;
+
+      const entries = await KpiEntryModel.find(filter).lean();
+
+      // Rank every template and period in one query
+      const rankGroups = new Map<string, Pick<Period, 'type' | 'key'>[]>();
+      entries.forEach((entry) => {
+        const periods = rankGroups.get(entry.kpiTemplateId) || [];
+        const key = this.getEntryPeriodKey(entry);
+        if (!periods.some((period) => period.key === key)) {
+          periods.push({ type: entry.period?.type || 'monthly', key });
+        }
+        rankGroups.set(entry.kpiTemplateId, periods);
+      });
+      const lockedEntries = entries.length
+        ? await KpiEntryModel.find({
+            status: { $in: ['generated', 'correction'] },
+            $or: [...rankGroups.entries()].flatMap(([kpiTemplateId, periods]) =>
+              periods.map((period) => ({
+                kpiTemplateId,
+                ...this.getPeriodFilter(period),
+              }))
+            ),
+          })
+            .select('kpiTemplateId period month year totalScore')
+            .lean()
+        : [];
+      const periodEntries = new Map<string, { id: string; score: number }[]>();
+      lockedEntries.forEach((entry) => {
+        const key = `${entry.kpiTemplateId}:${this.getEntryPeriodKey(entry)}`;
+        periodEntries.set(key, [
+          ...(periodEntries.get(key) || []),
+          { id: entry._id.toString(), score: entry.totalScore },
+        ]);
+      });
+      const ranks = new Map<string, number>();
+      periodEntries.forEach((scores) =>
+        this.rankEntries(scores).forEach((rank, id) => ranks.set(id, rank))
+      );
+
+      const round = (value: number) => Math.round(value * 100) / 100;
+      const series = new Map<
+        string,
+        {
+          createdFor: string;
+          kpiref?: string;
+          kpiTemplateId: string;
+          points: TrendPoint[];
+        }
+      >();
+      [...entries]
+        .sort((a, b) =>
+          this.getEntryPeriodKey(a).localeCompare(this.getEntryPeriodKey(b))
+        )
+        .forEach((entry) => {
+          const key = `${entry.createdFor}:${entry.kpirefs}:${entry.kpiTemplateId}`;
+          const current = series.get(key) || {
+            createdFor: entry.createdFor,
+            kpiref: entry.kpirefs,
+            kpiTemplateId: entry.kpiTemplateId,
+            points: [],
+          };
+          const periodKey = this.getEntryPeriodKey(entry);
+          const rank = ranks.get(entry._id.toString()) ?? null;
+          const items = entry.values.map((value) => ({
+            name: value.name,
+            value: value.value,
+            score: value.score,
+          }));
+
+          const previous = current.points[current.points.length - 1];
+          current.points.push({
+            period: periodKey,
+            month: entry.month,
+            year: entry.year,
+            entryId: entry._id.toString(),
+            status: entry.status,
+            totalScore: entry.totalScore,
+            normalizedScore: entry.normalizedScore || 0,
+            rank,
+            rankOutOf:
+              periodEntries.get(`${entry.kpiTemplateId}:${periodKey}`)
+                ?.length || 0,
+            items,
+            // Change from the previous period, positive rank movement is a
+            // move up the ranking
+            change: previous
+              ? {
+                  fromPeriod: previous.period,
+                  totalScore: round(entry.totalScore - previous.totalScore),
+                  normalizedScore: round(
+                    (entry.normalizedScore || 0) - previous.normalizedScore
+                  ),
+                  rankMovement:
+                    rank !== null && previous.rank !== null
+                      ? previous.rank - rank
+                      : null,
+                  items: items.map((item) => {
+                    const before = previous.items.find(
+                      (p) => p.name === item.name
+                    );
+                    return {
+                      name: item.name,
+                      score: before ? round(item.score - before.score) : null,
+                    };
+                  }),
+                }
+              : null,
+          });
+          series.set(key, current);
+        });
+
+      return {
+        from: from.key,
+        to: to.key,
+        months: months.length,
+        userId: options.userId,
+        kpiref: options.kpiref,
+        jurisdiction: options.jurisdiction,
+        templateId: options.templateId || 'All Templates',
+        series: [...series.values()].map((s) => {
+          const first = s.points[0];
+          const last = s.points[s.points.length - 1];
+          // Rank movement between the first and last ranked periods
+          const ranked = s.points.filter(
+            (point): point is TrendPoint & { rank: number } =>
+              point.rank !== null
+          );
+          return {
+            ...s,
+            summary: {
+              periods: s.points.length,
+              totalScoreChange: round(last.totalScore - first.totalScore),
+              rankMovement:
+                ranked.length > 1
+                  ? ranked[0].rank - ranked[ranked.length - 1].rank
+                  : null,
+            },
+          };
+        }),
+      };
+    } catch (error) {
+      logger.error('Error getting KPI entry trends:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and calculate scores for KPI values
+   */
+  static validateAndCalculateScores(
+    values: Array<{
+      name: string;
+      value: number | string | boolean;
+      score?: number;
+      comments?: string;
+      isByPassed?: boolean;
+    }>,
+    templateItems: TemplateItem[],
+    options: { partial?: boolean } = {}
+  ): Array<{
+    name: string;
+    value: number | string | boolean;
+    score: number;
+    comments?: string;
+    isByPassed?: boolean;
+  }> {
+    // First validate that all required non-dynamic KPIs are provided,
+    // partial (draft) values only score what is present
+    if (!options.partial) {
+      this.validateRequiredValues(values, templateItems);
+    }
+
+    const validatedValues = [];
+
+    for (const value of values) {
+      const templateItem = templateItems.find(
+        (item) => item.name === value.name
+      );
+
+      if (!templateItem) {
+        logger.warn(`Template item not found for KPI: ${value.name}`);
+        continue;
+      }
+
+      // Formula items are always computed from their inputs below
+      if (templateItem.kpiType === 'formula') {
+        logger.warn(
+          `Value ignored for formula KPI: ${value.name}. Value will be computed automatically.`
+        );
+        continue;
+      }
+
+      let score = 0;
+
+      // For bypassed items, use the provided score field as final score
+      if (value.isByPassed) {
+        if (value.score === undefined) {
+          throw new APIError({
+            STATUS: 400,
+            TITLE: 'Missing score field',
+            MESSAGE: `Bypassed KPI ${value.name} must have a score field`,
+          });
+        }
+        score = value.score;
+      } else {
+        // For non-bypassed items, ignore any provided score and calculate automatically
+        if (value.score !== undefined) {
+          logger.warn(
+            `Score field ignored for non-bypassed KPI: ${value.name}. Score will be calculated automatically.`
+          );
+        }
+
+        // Validate value type
+        if (
+          templateItem.kpiType === 'quantitative' ||
+          templateItem.kpiType === 'percentage' ||
+          templateItem.kpiType === 'score'
+        ) {
+          if (typeof value.value !== 'number') {
+            throw new APIError({
+              STATUS: 400,
+              TITLE: 'Invalid value type',
+              MESSAGE: `KPI ${value.name} expects numeric value, got ${typeof value.value}`,
+            });
+          }
+        } else if (templateItem.kpiType === 'binary') {
+          if (typeof value.value !== 'boolean') {
+            throw new APIError({
+              STATUS: 400,
+              TITLE: 'Invalid value type',
+              MESSAGE: `KPI ${value.name} expects boolean value, got ${typeof value.value}`,
+            });
+          }
+        }
+
+        // Calculate score based on scoring rules
+        score = this.calculateScore(value.value, templateItem);
+      }
+
+      validatedValues.push({
+        ...value,
+        score,
+      });
+    }
+
+    // Computed values are stored alongside the inputs they are derived from
+    validatedValues.push(
+      ...this.calculateFormulaValues(validatedValues, templateItems)
+    );
+
+    return validatedValues;
+  }
+
+  /**
+   * Evaluate formula items from the numeric values of the items they reference
+   * and score them with their scoring rules. Formulas are evaluated in
+   * dependency order so formulas can build on other formulas; a formula whose
+   * inputs are not all provided is skipped.
+   */
+  static calculateFormulaValues(
+    values: Array<{ name: string; value: number | string | boolean }>,
+    templateItems: TemplateItem[]
+  ): Array<{ name: string; value: number; score: number }> {
+    const formulaItems = templateItems.filter(
+      (item) => item.kpiType === 'formula' && item.formula
+    );
+    if (formulaItems.length === 0) return [];
+
+    const dependencies: Record<string, string[]> = {};
+    formulaItems.forEach((item) => {
+      dependencies[item.name] = getFormulaReferences(item.formula as string);
+    });
+
+    const variables: Record<string, number> = {};
+    values.forEach((value) => {
+      if (typeof value.value === 'number') variables[value.name] = value.value;
+    });
+
+    const computedValues = [];
+    for (const name of sortFormulas(dependencies).order) {
+      const templateItem = formulaItems.find((item) => item.name === name)!;
+      const missingInputs = dependencies[name].filter(
+        (reference) => typeof variables[reference] !== 'number'
+      );
+
+      if (missingInputs.length > 0) {
+        logger.warn(
+          `Formula KPI "${name}" not computed, missing values for: ${missingInputs.join(', ')}`
+        );
+        continue;
+      }
+
+      let result: number;
+      try {
+        result = evaluateFormula(templateItem.formula as string, variables);
+      } catch (error) {
+        if (!(error instanceof FormulaError)) throw error;
+        logger.warn(`Formula KPI "${name}" not computed: ${error.message}`);
+        continue;
+      }
+      const value = Math.round(result * 10000) / 10000;
+      variables[name] = value;
+
+      computedValues.push({
+        name,
+        value,
+        score: this.calculateScore(value, templateItem),
+      });
+    }
+
+    return computedValues;
+  }
+
+  /**
+   * Validate that all non-dynamic KPI items are provided in the entry
+   */
+  static validateRequiredValues(
+    values: Array<{
+      name: string;
+      value: number | string | boolean;
+      score?: number;
+      comments?: string;
+      isByPassed?: boolean;
+    }>,
+    templateItems: TemplateItem[]
+  ): void {
+    const missingNonDynamicKpis = this.getMissingRequiredValues(
+      values,
+      templateItems
+    );
+
+    if (missingNonDynamicKpis.length > 0) {
+      throw new APIError({
+        STATUS: 400,
+        TITLE: 'Missing required values',
+        MESSAGE:
+          `Missing required values for non-dynamic KPIs: ${missingNonDynamicKpis.join(', ')}. ` +
+          `All KPI items with isDynamic: false must be provided in the entry.`,
+      });
+    }
+  }
+
+  /**
+   * Names of the required items (non-dynamic, not computed) without a value
+   */
+  static getMissingRequiredValues(
+    values: Array<{ name: string }>,
+    templateItems: TemplateItem[]
+  ): string[] {
+    const providedKpiNames = values.map((v) => v.name);
+    return templateItems
+      .filter(
+        (item) =>
+          !item.isDynamic &&
+          item.kpiType !== 'formula' && // Computed, never provided
+          !providedKpiNames.includes(item.name)
+      )
+      .map((item) => item.name);
+  }
+
+  /**
+   * How many of the required items have a value
+   */
+  static calculateCompleteness(
+    values: Array<{ name: string }>,
+    templateItems: TemplateItem[]
+  ): Completeness {
+    const requiredCount = templateItems.filter(
+      (item) => !item.isDynamic && item.kpiType !== 'formula'
+    ).length;
+    const missing = this.getMissingRequiredValues(values, templateItems);
+    const providedCount = requiredCount - missing.length;
+
+    return {
+      requiredCount,
+      providedCount,
+      percentage:
+        requiredCount > 0
+          ? Math.round((providedCount / requiredCount) * 10000) / 100
+          : 100,
+      missing,
+    };
+  }
+
+  /**
+   * Scoring mode of an item. Items without an explicit mode keep their
+   * original behaviour: percentage items use higher-is-better thresholds and
+   * everything else uses range or exact value rules.
+   */
+  static getScoringMode(templateItem: TemplateItem): ScoringMode {
+    if (templateItem.scoringMode) return templateItem.scoringMode;
+    return templateItem.kpiType === 'percentage' ? 'higher_is_better' : 'rules';
+  }
+
+  /**
+   * Calculate the score of a value for a template item
+   */
+  static calculateScore(
+    value: number | string | boolean,
+    templateItem: TemplateItem
+  ): number {
+    logger.debug(
+      `Calculating score for KPI "${templateItem.name}" (${templateItem.kpiType}): value=${value}, mode=${this.getScoringMode(templateItem)}`
+    );
+
+    const { score, usesRules, matchedRule } = this.resolveScore(
+      value,
+      templateItem
+    );
+
+    if (usesRules && !matchedRule) {
+      logger.warn(
+        `No scoring rule matched for KPI "${templateItem.name}" with value ${value}. Available rules: ${JSON.stringify(templateItem.scoringRules)}`
+      );
+    }
+
+    logger.debug(`Score calculated: ${score}`);
+    return score;
+  }
+
+  /**
+   * Resolve the score of a value along with the rule that produced it.
+   * `usesRules` is false for modes that compute the score directly (score
+   * items, target and linear), those never have a matched rule.
+   */
+  static resolveScore(
+    value: number | string | boolean,
+    templateItem: TemplateItem
+  ): { score: number; usesRules: boolean; matchedRule: ScoringRule | null } {
+    // For score type, the value IS the score (direct score entry)
+    if (templateItem.kpiType === 'score' && typeof value === 'number') {
+      return { score: value, usesRules: false, matchedRule: null };
+    }
+
+    const mode = this.getScoringMode(templateItem);
+    const config = templateItem.scoringConfig || {};
+
+    if (mode === 'target' || mode === 'linear') {
+      if (typeof value !== 'number') {
+        return { score: 0, usesRules: false, matchedRule: null };
+      }
+      const score =
+        mode === 'target'
+          ? this.calculateTargetScore(value, templateItem.maxMarks, config)
+          : this.calculateLinearScore(value, templateItem.maxMarks, config);
+      return { score, usesRules: false, matchedRule: null };
+    }
+
+    const matchedRule =
+      this.findMatchingRule(value, templateItem.scoringRules, mode) || null;
+    return { score: matchedRule?.score ?? 0, usesRules: true, matchedRule };
+  }
+
+  /**
+   * Target mode: values within `tolerance` of `target` (inclusive) score
+   * maxMarks. Beyond the band the score decreases linearly and reaches 0 at
+   * `falloff` past the band edge; without a falloff it drops straight to 0.
+   */
+  static calculateTargetScore(
+    value: number,
+    maxMarks: number,
+    config: ScoringConfig
+  ): number {
+    if (config.target === undefined) return 0;
+
+    const distance = Math.abs(value - config.target) - (config.tolerance ?? 0);
+    if (distance <= 0) return maxMarks;
+    if (!config.falloff) return 0;
+
+    const score = maxMarks * Math.max(0, 1 - distance / config.falloff);
+    return Math.round(score * 100) / 100;
+  }
+
+  /**
+   * Linear mode: `min` scores 0 and `max` scores maxMarks, values in between
+   * are interpolated and values outside are clamped. A `min` above `max`
+   * scores lower values higher.
+   */
+  static calculateLinearScore(
+    value: number,
+    maxMarks: number,
+    config: ScoringConfig
+  ): number {
+    if (
+      config.min === undefined ||
+      config.max === undefined ||
+      config.min === config.max
+    ) {
+      return 0;
+    }
+
+    const ratio = (value - config.min) / (config.max - config.min);
+    const score = maxMarks * Math.min(1, Math.max(0, ratio));
+    return Math.round(score * 100) / 100;
+  }
+
+  /**
+   * Find the scoring rule that applies to a value
+   */
+  static findMatchingRule(
+    value: number | string | boolean,
+    scoringRules: ScoringRule[],
+    mode: ScoringMode = 'rules'
+  ): ScoringRule | undefined {
+    if (mode === 'higher_is_better' || mode === 'lower_is_better') {
+      if (typeof value !== 'number') return undefined;
+
+      const thresholds = scoringRules.filter(
+        (rule) => typeof rule.value === 'number'
+      );
+
+      // Highest threshold the value reaches, thresholds are inclusive
+      if (mode === 'higher_is_better') {
+        return thresholds
+          .sort((a, b) => (b.value as number) - (a.value as number))
+          .find((rule) => value >= (rule.value as number));
+      }
+
+      // Lowest threshold the value stays within, thresholds are inclusive
+      return thresholds
+        .sort((a, b) => (a.value as number) - (b.value as number))
+        .find((rule) => value <= (rule.value as number));
+    }
+
+    return scoringRules.find((rule) => {
+      // For range-based rules (min/max)
+      if (rule.min !== undefined && rule.max !== undefined) {
+        return (
+          typeof value === 'number' && value >= rule.min && value <= rule.max
+        );
+      }
+      // For exact value rules (binary rules store "true"/"false")
+      return (
+        rule.value !== undefined &&
+        (value === rule.value ||
+          (typeof value === 'boolean' && String(value) === String(rule.value)))
+      );
+    });
+  }
+
+  /**
+   * Score hypothetical value sets against template items without saving
+   * anything. Each set reports the item scores with the rule that matched,
+   * the totals, and warnings for values that would silently score 0.
+   */
+  static simulateScores(
+    valueSets: Array<
+      Array<{
+        name: string;
+        value: number | string | boolean;
+        score?: number;
+        comments?: string;
+        isByPassed?: boolean;
+      }>
+    >,
+    templateItems: TemplateItem[],
+    sections: TemplateSection[] = []
+  ) {
+    return valueSets.map((values, index) => {
+      const warnings: string[] = [];
+
+      values.forEach((value) => {
+        const templateItem = templateItems.find(
+          (item) => item.name === value.name
+        );
+        if (!templateItem) {
+          warnings.push(`Unknown KPI "${value.name}" is ignored`);
+        } else if (templateItem.kpiType === 'formula') {
+          warnings.push(
+            `Value for formula KPI "${value.name}" is ignored, it is computed`
+          );
+        }
+      });
+
+      let scoredValues;
+      try {
+        scoredValues = this.validateAndCalculateScores(values, templateItems);
+      } catch (error) {
+        return {
+          index,
+          items: [],
+          totalScore: 0,
+          normalizedScore: 0,
+          sectionScores: [],
+          warnings,
+          errors: [(error as Error).message],
+        };
+      }
+
+      const items = scoredValues.map((value) => {
+        const templateItem = templateItems.find(
+          (item) => item.name === value.name
+        ) as TemplateItem;
+        const { usesRules, matchedRule } = value.isByPassed
+          ? { usesRules: false, matchedRule: null }
+          : this.resolveScore(value.value, templateItem);
+
+        if (usesRules && !matchedRule) {
+          warnings.push(
+            `No scoring rule matched KPI "${value.name}" with value ${value.value}, scored 0`
+          );
+        }
+
+        return {
+          name: value.name,
+          value: value.value,
+          score: value.score,
+          maxMarks: templateItem.maxMarks,
+          scoringMode: this.getScoringMode(templateItem),
+          isByPassed: value.isByPassed || false,
+          isComputed: templateItem.kpiType === 'formula',
+          matchedRule,
+        };
+      });
+
+      templateItems
+        .filter(
+          (item) =>
+            item.kpiType === 'formula' &&
+            !scoredValues.some((value) => value.name === item.name)
+        )
+        .forEach((item) =>
+          warnings.push(
+            `Formula KPI "${item.name}" not computed, its inputs are missing`
+          )
+        );
+
+      return {
+        index,
+        items,
+        ...this.calculateTotals(scoredValues, templateItems, sections),
+        warnings,
+        errors: [],
+      };
+    });
+  }
+
+  /**
+   * Calculate the raw total and the normalized total (0-100) of scored values.
+   * Each item contributes score / maxMarks of its weight; templates without
+   * weights use maxMarks as weight, so the normalized total is the share of
+   * the maximum achievable marks. Dynamic items only count when provided.
+   * Sections with a maxMarks cap count as a single unit scored out of the
+   * cap, weighted by their items' weights (or the cap without weights), and
+   * add at most the cap to the raw total.
+   */
+  static calculateTotals(
+    values: Array<{ name: string; score: number }>,
+    templateItems: TemplateItem[],
+    sections: TemplateSection[] = []
+  ): {
+    totalScore: number;
+    normalizedScore: number;
+    sectionScores: SectionScore[];
+  } {
+    const sectionScores = this.calculateSectionScores(
+      values,
+      templateItems,
+      sections
+    );
+    const cappedSections = sections.filter(
+      (section) => section.maxMarks !== undefined
+    );
+    const isCapped = (item: TemplateItem) =>
+      cappedSections.some((section) => section.name === item.section);
+
+    const cappedMarks = sectionScores.reduce(
+      (sum, section) => sum + (section.rawScore - section.score),
+      0
+    );
+    const totalScore =
+      values.reduce((sum, value) => sum + value.score, 0) - cappedMarks;
+
+    const providedKpiNames = values.map((v) => v.name);
+    const countedItems = templateItems.filter(
+      (item) => !item.isDynamic || providedKpiNames.includes(item.name)
+    );
+
+    let weightedScore = 0;
+    let totalWeight = 0;
+    for (const item of countedItems) {
+      if (isCapped(item)) continue;
+
+      const weight = item.weight ?? item.maxMarks;
+      const value = values.find((v) => v.name === item.name);
+      const ratio =
+        value && item.maxMarks > 0 ? value.score / item.maxMarks : 0;
+
+      weightedScore += weight * ratio;
+      totalWeight += weight;
+    }
+
+    for (const section of cappedSections) {
+      const sectionItems = countedItems.filter(
+        (item) => item.section === section.name
+      );
+      if (sectionItems.length === 0) continue;
+
+      const cap = section.maxMarks as number;
+      const weight = sectionItems.some((item) => item.weight !== undefined)
+        ? sectionItems.reduce((sum, item) => sum + (item.weight ?? 0), 0)
+        : cap;
+      const sectionScore = sectionScores.find((s) => s.name === section.name);
+      const ratio = sectionScore && cap > 0 ? sectionScore.score / cap : 0;
+
+      weightedScore += weight * ratio;
+      totalWeight += weight;
+    }
+
+    const normalizedScore =
+      totalWeight > 0 ? (weightedScore / totalWeight) * 100 : 0;
+
+    return {
+      totalScore,
+      normalizedScore:
+        Math.round(Math.min(Math.max(normalizedScore, 0), 100) * 100) / 100,
+      sectionScores,
+    };
+  }
+
+  /**
+   * Subtotal the item scores of every template section. A section's maxMarks
+   * caps its subtotal; without a cap the section is out of the sum of its
+   * items' maxMarks.
+   */
+  static calculateSectionScores(
+    values: Array<{ name: string; score: number }>,
+    templateItems: TemplateItem[],
+    sections: TemplateSection[] = []
+  ): SectionScore[] {
+    return sections.map((section) => {
+      const sectionItems = templateItems.filter(
+        (item) => item.section === section.name
+      );
+      const rawScore = values
+        .filter((value) =>
+          sectionItems.some((item) => item.name === value.name)
+        )
+        .reduce((sum, value) => sum + value.score, 0);
+
+      const maxMarks =
+        section.maxMarks ??
+        sectionItems.reduce((sum, item) => sum + item.maxMarks, 0);
+
+      return {
+        name: section.name,
+        score:
+          section.maxMarks !== undefined
+            ? Math.min(rawScore, section.maxMarks)
+            : rawScore,
+        rawScore,
+        maxMarks,
+      };
+    });
+  }
+
+  // Additional CRUD methods
+  async getKpiEntry(id: string) {
+    const kpiEntry = await KpiEntryModel.findById(id).lean();
+    return kpiEntry;
+  }
+
+  async getKpiEntries(
+    filter: FilterQuery<KpiEntry> = {},
+    page: number = 1,
+    limit: number = 10
+  ) {
+    const [kpiEntries, total] = await Promise.all([
+      KpiEntryModel.find(filter)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      KpiEntryModel.countDocuments(filter),
+    ]);
+
+    return {
+      docs: kpiEntries,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      hasNextPage: page < Math.ceil(total / limit),
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  async updateKpiEntry(id: string, kpiEntry: KpiEntryCreate) {
+    const updatedKpiEntry = await KpiEntryModel.findByIdAndUpdate(
+      id,
+      kpiEntry,
+      {
+        new: true,
+      }
+    ).lean();
+    return updatedKpiEntry;
+  }
+
+  async deleteKpiEntry(id: string) {
+    const deletedKpiEntry = await KpiEntryModel.findByIdAndDelete(id);
+    return deletedKpiEntry;
+  }
+
+  /**
+   * Generate final KPI reports - sets status to 'generated' and locks entries
+   * This should be called at the end of a period to finalize all entries,
+   * the period is given by its key or, without one, by the month it starts in.
+   * Only approved entries are locked, entries still in the review workflow
+   * are left untouched and listed in the result.
+   */
+  static async generateFinalReports(
+    templateId: string,
+    month: number | undefined,
+    year: number | undefined,
+    generatedBy: string,
+    periodKey?: string
+  ) {
+    try {
+      logger.info(
+        `Generating final KPI reports for template ${templateId}, ${periodKey ? `period ${periodKey}` : `month ${month}, year ${year}`}`
+      );
+
+      const template = await KpiTemplateService.getKpiTemplate(templateId);
+      if (!template) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${templateId}`,
+        });
+      }
+      const period = this.resolveTemplatePeriod(template, {
+        periodKey,
+        month,
+        year,
+      });
+      ({ month, year } = getPeriodMonth(period));
+
+      // Get all entries for the specified period that are not already generated
+      const pendingEntries = await KpiEntryModel.find({
+        kpiTemplateId: templateId,
+        ...this.getPeriodFilter(period),
+        status: { $ne: 'generated' },
+      });
+
+      if (pendingEntries.length === 0) {
+        throw new APIError({
+          STATUS: HttpErrorStatusCode.NOT_FOUND,
+          TITLE: 'No Entries Found',
+          MESSAGE: `No KPI entries found for template ${templateId} in ${period.key}`,
+        });
+      }
+
+      const entries = pendingEntries.filter(
+        (entry) => entry.status === 'approved'
+      );
+      const unapprovedEntries = pendingEntries
+        .filter((entry) => entry.status !== 'approved')
+        .map((entry) => ({
+          entryId: entry._id.toString(),
+          createdFor: entry.createdFor,
+          kpirefs: entry.kpirefs,
+          status: entry.status,
+        }));
+
+      if (unapprovedEntries.length > 0) {
+        logger.warn(
+          `${unapprovedEntries.length} KPI entries of template ${templateId} for ${period.key} are not approved and were not generated`
+        );
+      }
+
+      // Update approved entries to 'generated' status, entries returned or
+      // reopened since they were read stay as they are
+      const generatedAt = new Date();
+      const entryIds = entries.map((entry) => entry._id);
+      const result = await KpiEntryModel.updateMany(
+        { _id: { $in: entryIds }, status: 'approved' },
+        { status: 'generated', generatedAt }
+      );
+      const generatedIds = new Set(
+        (
+          await KpiEntryModel.find(
+            { _id: { $in: entryIds }, status: 'generated', generatedAt },
+            { _id: 1 }
+          ).lean()
+        ).map((entry) => entry._id.toString())
+      );
+      const changedEntries = entries
+        .filter((entry) => !generatedIds.has(entry._id.toString()))
+        .map((entry) => ({
+          entryId: entry._id.toString(),
+          createdFor: entry.createdFor,
+          kpirefs: entry.kpirefs,
+        }));
+      const generatedCount = result.modifiedCount;
+
+      if (changedEntries.length > 0) {
+        logger.warn(
+          `${changedEntries.length} KPI entries of template ${templateId} for ${period.key} changed status before they were generated`
+        );
+      }
+      logger.info(
+        `Generated ${generatedCount} final KPI reports for template ${templateId}`
+      );
+
+      // Log the report generation
+      KpiAuditLogService.create({
+        type: 'entry',
+        userId: generatedBy,
+        action: 'generate_report',
+        changes: [
+          {
+            field: 'final_reports_generated',
+            oldValue: null,
+            newValue: {
+              templateId,
+              period: period.key,
+              month,
+              year,
+              entriesCount: generatedCount,
+              unapprovedCount: unapprovedEntries.length,
+              changedCount: changedEntries.length,
+            },
+          },
+        ],
+      });
+
+      return {
+        message:
+          unapprovedEntries.length > 0
+            ? `Successfully generated ${generatedCount} final KPI reports, ${unapprovedEntries.length} entries are not approved yet`
+            : `Successfully generated ${generatedCount} final KPI reports`,
+        entriesCount: generatedCount,
+        unapprovedCount: unapprovedEntries.length,
+        unapprovedEntries,
+        // Approved when read but returned or reopened before being locked
+        changedCount: changedEntries.length,
+        changedEntries,
+        templateId,
+        period: period.key,
+        month,
+        year,
+      };
+    } catch (error) {
+      logger.error('Error generating final KPI reports:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate default entries of the current period of every active template,
+   * following each template's frequency. Runs daily, templates whose current
+   * period already has entries are skipped.
+   */
+  static async generateDueDefaultEntries(now: Date = new Date()) {
+    const templates = await KpiTemplateService.getKpiTemplates({
+      page: 1,
+      limit: 1000, // Get all templates
+      status: 'active',
+    });
+
+    const results = [];
+    for (const template of templates.docs) {
+      const timezone = template.submissionWindow?.timezone || DEFAULT_TIME_ZONE;
+      const period = getPeriod(template.frequency as PeriodType, now, timezone);
+
+      const templateId = template._id.toString();
+      const hasEntries = await KpiEntryModel.exists({
+        kpiTemplateId: templateId,
+        ...this.getPeriodFilter(period),
+      });
+      if (hasEntries) continue;
+
+      try {
+        results.push(
+          await this.generateDefaultKpiEntries(
+            templateId,
+            undefined,
+            undefined,
+            'system',
+            period.key
+          )
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to generate entries for template ${template.name}:`,
+          error
+        );
+        // Continue with other templates even if one fails
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Generate final reports of every period with approved entries whose
+   * submission window has closed. Runs daily, so templates with grace days
+   * are finalized once their window closes, and entries approved late or
+   * periods missed while the job did not run are picked up on later runs.
+   */
+  static async generateDueFinalReports(now: Date = new Date()) {
+    const templates = await KpiTemplateService.getKpiTemplates({
+      page: 1,
+      limit: 1000, // Get all templates
+    });
+
+    const results = [];
+    for (const template of templates.docs) {
+      const templateId = template._id.toString();
+      const approvedEntries = await KpiEntryModel.find({
+        kpiTemplateId: templateId,
+        status: 'approved',
+      })
+        .select('period month year')
+        .lean();
+
+      const duePeriodKeys = new Set(
+        approvedEntries
+          .filter(
+            (entry) =>
+              now >=
+              this.getSubmissionWindow(entry, template.submissionWindow)
+                .closesAt
+          )
+          .map((entry) => this.getEntryPeriodKey(entry))
+      );
+
+      for (const periodKey of [...duePeriodKeys].sort()) {
+        try {
+          results.push(
+            await this.generateFinalReports(
+              templateId,
+              undefined,
+              undefined,
+              'system',
+              periodKey
+            )
+          );
+        } catch (error) {
+          logger.error(
+            `Failed to generate reports for template ${template.name}, period ${periodKey}:`,
+            error
+          );
+          // Continue with other periods and templates even if one fails
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Re-run scoring for the entries of a template. By default every entry is
+   * scored against the version it is pinned to, picking up fixes to that
+   * version; with an explicit `version` entries are scored against it and
+   * re-pinned. Locked (generated or reopened) entries are skipped and
+   * reported unless `includeLocked` is set. Without `apply` only a preview
+   * of old vs new totals and rankings is returned; with `apply` changed
+   * entries are updated and audited one record per entry, entries edited
+   * since they were read are reported as conflicts.
+   */
+  static async rescoreKpiEntries(
+    filters: {
+      templateId: string;
+      month?: number;
+      year?: number;
+      status?: string;
+      version?: number;
+      includeLocked?: boolean;
+    },
+    apply: boolean,
+    rescoredBy: string
+  ) {
+    try {
+      const { templateId, month, year, status, version, includeLocked } =
+        filters;
+
+      // Scoring templates by version, entries without a pinned version use
+      // the current template
+      const templates = new Map<
+        number | undefined,
+        Awaited<ReturnType<typeof KpiTemplateService.getScoringTemplate>>
+      >();
+      const getTemplate = async (templateVersion?: number) => {
+        if (!templates.has(templateVersion)) {
+          templates.set(
+            templateVersion,
+            await KpiTemplateService.getScoringTemplate(
+              templateId,
+              templateVersion
+            )
+          );
+        }
+        return templates.get(templateVersion);
+      };
+
+      const target = version ? await getTemplate(version) : null;
+      if (
+        (version && target?.version !== version) ||
+        !(target || (await getTemplate(undefined)))
+      ) {
         throw new APIError({
-          STATUS: HttpErrorStatusCode.NOT_FOUND,
-          TITLE: 'No Entries Found',
-          MESSAGE: `No KPI entries found for template ${templateId} in ${month}/${year}`,
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: version
+            ? `KPI template ${templateId} has no version ${version}`
+            : `KPI template not found: ${templateId}`,
         });
       }
 
-      // Update all entries to 'generated' status
-      const updatePromises = entries.map((entry) =>
-        KpiEntryModel.findByIdAndUpdate(entry._id, {
-          status: 'generated',
+      const filter: FilterQuery<KpiEntry> = {
+        kpiTemplateId: templateId,
+        status: status || { $ne: 'created' }, // Entries without values have nothing to rescore
+      };
+      if (month) filter.month = month;
+      if (year) filter.year = year;
+
+      const entries = await KpiEntryModel.find(filter).lean();
+
+      const rescoredEntries = [];
+      const errors: { entryId: string; message: string }[] = [];
+      const skipped: { entryId: string; status: string; reason: string }[] = [];
+
+      for (const entry of entries) {
+        // Finalized results are only changed on request
+        if (!includeLocked && LOCKED_STATUSES.includes(entry.status)) {
+          skipped.push({
+            entryId: entry._id.toString(),
+            status: entry.status,
+            reason: 'Locked entries are only rescored with includeLocked',
+          });
+          continue;
+        }
+
+        try {
+          const template = target || (await getTemplate(entry.templateVersion));
+          if (!template) {
+            throw new Error(
+              `KPI template version ${entry.templateVersion} not found`
+            );
+          }
+          const targetVersion = template.version || 1;
+
+          // Drafts are not submitted yet and may still miss required items
+          const { values, completeness, ...totals } =
+            this.prepareKpiEntryValues(entry.values, template, {
+              partial: DRAFT_STATUSES.includes(entry.status),
+            });
+
+          const changedItems = values
+            .map((value) => ({
+              name: value.name,
+              oldScore:
+                entry.values.find((v) => v.name === value.name)?.score ?? null,
+              newScore: value.score,
+            }))
+            .filter((item) => item.oldScore !== item.newScore);
+
+          rescoredEntries.push({
+            entry,
+            values,
+            ...totals,
+            changedItems,
+            targetVersion,
+            completeness,
+          });
+        } catch (error) {
+          errors.push({
+            entryId: entry._id.toString(),
+            message: (error as Error).message,
+          });
+        }
+      }
+
+      // Rank every period affected by the rescore before and after the change
+      const periods = new Map<string, Pick<Period, 'type' | 'key'>>();
+      rescoredEntries.forEach(({ entry }) =>
+        periods.set(
+          this.getEntryPeriodKey(entry),
+          entry.period || {
+            type: 'monthly',
+            key: getMonthlyPeriodKey(entry.month, entry.year),
+          }
+        )
+      );
+      const rankBefore = new Map<string, number>();
+      const rankAfter = new Map<string, number>();
+      const newTotals = new Map(
+        rescoredEntries.map((rescored) => [
+          rescored.entry._id.toString(),
+          rescored.totalScore,
+        ])
+      );
+
+      for (const period of periods.values()) {
+        const periodEntries = await KpiEntryModel.find({
+          kpiTemplateId: templateId,
+          ...this.getPeriodFilter(period),
+          status: { $ne: 'created' },
         })
+          .select('_id totalScore')
+          .lean();
+
+        this.rankEntries(
+          periodEntries.map((e) => ({
+            id: e._id.toString(),
+            score: e.totalScore,
+          }))
+        ).forEach((rank, id) => rankBefore.set(id, rank));
+        this.rankEntries(
+          periodEntries.map((e) => ({
+            id: e._id.toString(),
+            score: newTotals.get(e._id.toString()) ?? e.totalScore,
+          }))
+        ).forEach((rank, id) => rankAfter.set(id, rank));
+      }
+
+      const preview = rescoredEntries.map((rescored) => {
+        const entryId = rescored.entry._id.toString();
+        return {
+          entryId,
+          createdFor: rescored.entry.createdFor,
+          kpirefs: rescored.entry.kpirefs,
+          period: this.getEntryPeriodKey(rescored.entry),
+          month: rescored.entry.month,
+          year: rescored.entry.year,
+          status: rescored.entry.status,
+          templateVersion: rescored.entry.templateVersion,
+          newTemplateVersion: rescored.targetVersion,
+          oldTotalScore: rescored.entry.totalScore,
+          newTotalScore: rescored.totalScore,
+          oldNormalizedScore: rescored.entry.normalizedScore || 0,
+          newNormalizedScore: rescored.normalizedScore,
+          delta: rescored.totalScore - rescored.entry.totalScore,
+          rankBefore: rankBefore.get(entryId) || 0,
+          rankAfter: rankAfter.get(entryId) || 0,
+          changedItems: rescored.changedItems,
+        };
+      });
+
+      const changedEntries = rescoredEntries.filter(
+        (rescored) =>
+          rescored.changedItems.length > 0 ||
+          rescored.totalScore !== rescored.entry.totalScore ||
+          rescored.normalizedScore !== (rescored.entry.normalizedScore || 0) ||
+          JSON.stringify(rescored.sectionScores) !==
+            JSON.stringify(rescored.entry.sectionScores || []) ||
+          rescored.entry.templateVersion !== rescored.targetVersion
+      );
+
+      // Entries edited or moved on in the workflow since they were read are
+      // left as they are and reported as conflicts
+      const conflicts: { entryId: string; status: string }[] = [];
+      let appliedEntries: typeof changedEntries = [];
+      if (apply && changedEntries.length > 0) {
+        const results = await Promise.all(
+          changedEntries.map((rescored) =>
+            KpiEntryModel.updateOne(
+              {
+                _id: rescored.entry._id,
+                status: rescored.entry.status,
+                updatedAt: rescored.entry.updatedAt,
+              },
+              {
+                $set: {
+                  values: this.keepValueAttachments(
+                    rescored.entry.values,
+                    rescored.values
+                  ).values,
+                  totalScore: rescored.totalScore,
+                  normalizedScore: rescored.normalizedScore,
+                  sectionScores: rescored.sectionScores,
+                  completeness: rescored.completeness,
+                  templateVersion: rescored.targetVersion,
+                },
+              }
+            )
+          )
+        );
+        appliedEntries = changedEntries.filter((rescored, index) => {
+          if (results[index].matchedCount > 0) return true;
+          conflicts.push({
+            entryId: rescored.entry._id.toString(),
+            status: rescored.entry.status,
+          });
+          return false;
+        });
+
+        await Promise.all(
+          appliedEntries.map((rescored) =>
+            KpiAuditLogService.create({
+              type: 'entry',
+              userId: rescoredBy,
+              entityId: rescored.entry._id.toString(),
+              action: 'rescore',
+              changes: [
+                {
+                  field: 'templateVersion',
+                  oldValue: rescored.entry.templateVersion ?? null,
+                  newValue: rescored.targetVersion,
+                },
+                {
+                  field: 'totalScore',
+                  oldValue: rescored.entry.totalScore,
+                  newValue: rescored.totalScore,
+                },
+                {
+                  field: 'normalizedScore',
+                  oldValue: rescored.entry.normalizedScore || 0,
+                  newValue: rescored.normalizedScore,
+                },
+                ...this.diffEntryValues(rescored.entry.values, rescored.values),
+              ],
+            })
+          )
+        );
+
+        logger.info(
+          `Rescored ${appliedEntries.length} KPI entries of template ${templateId} against ${version ? `version ${version}` : 'their pinned versions'}`
+        );
+      }
+
+      return {
+        templateId,
+        version: version || 'pinned', // Each entry's own version by default
+        applied: apply,
+        filters: { month, year, status, includeLocked: includeLocked || false },
+        summary: {
+          entriesCount: entries.length,
+          changedCount: changedEntries.length,
+          appliedCount: appliedEntries.length,
+          skippedCount: skipped.length,
+          conflictCount: conflicts.length,
+          errorCount: errors.length,
+        },
+        entries: preview,
+        skipped,
+        conflicts,
+        errors,
+      };
+    } catch (error) {
+      logger.error('Error rescoring KPI entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the value sheet of a template for a month: one row per entry with
+   * the entry id, the member and kpiref it is for, its status and a column
+   * per input item of the versions the entries are pinned to, pre-filled with
+   * the saved values. Formula items are left out as they are computed.
+   */
+  static async getBulkValueSheet(
+    templateId: string,
+    month: number,
+    year: number
+  ) {
+    try {
+      const template = await KpiTemplateService.getKpiTemplate(templateId);
+      if (!template) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${templateId}`,
+        });
+      }
+
+      const entries = await KpiEntryModel.find({
+        kpiTemplateId: templateId,
+        month,
+        year,
+      })
+        .sort({ 'period.key': 1, createdFor: 1, kpirefs: 1 })
+        .lean();
+
+      // Input items of the versions the entries are pinned to, as uploads are
+      // validated against them; without entries the version effective for
+      // the month is used
+      const versionItems = new Map<number | undefined, TemplateItem[]>();
+      for (const entry of entries) {
+        if (versionItems.has(entry.templateVersion)) continue;
+        const scoringTemplate = await KpiTemplateService.getScoringTemplate(
+          templateId,
+          entry.templateVersion
+        );
+        versionItems.set(
+          entry.templateVersion,
+          (scoringTemplate || template).template as TemplateItem[]
+        );
+      }
+      if (entries.length === 0) {
+        const version = await KpiTemplateService.resolveKpiTemplateVersion(
+          templateId,
+          month,
+          year
+        );
+        versionItems.set(
+          undefined,
+          (version || template).template as TemplateItem[]
+        );
+      }
+      const itemNames = [
+        ...new Set(
+          [...versionItems.values()].flatMap((items) =>
+            items
+              .filter((item) => item.kpiType !== 'formula')
+              .map((item) => item.name)
+          )
+        ),
+      ];
+
+      const names = new Map<string, string>();
+      for (const userId of new Set(entries.map((entry) => entry.createdFor))) {
+        try {
+          const member = await MemberService.getMemberByUserId(userId);
+          names.set(userId, member.user?.name || '');
+        } catch (error) {
+          logger.debug(`No member found for sheet entry ${userId}:`, error);
+        }
+      }
+
+      const columns = [...BULK_SHEET_COLUMNS, ...itemNames];
+      const rows = entries.map((entry) => {
+        const row: Record<string, unknown> = {
+          entryId: entry._id.toString(),
+          createdFor: entry.createdFor,
+          name: names.get(entry.createdFor) || '',
+          kpirefs: entry.kpirefs || '',
+          period: this.getEntryPeriodKey(entry),
+          status: entry.status,
+        };
+        // Items of other versions are left blank
+        for (const name of itemNames) {
+          const saved = entry.values.find((value) => value.name === name);
+          row[name] = saved ? saved.value : '';
+        }
+        return row;
+      });
+
+      return {
+        templateName: template.name,
+        columns,
+        rows,
+      };
+    } catch (error) {
+      logger.error('Error building KPI value sheet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Serialize a value sheet as CSV or XLSX
+   */
+  static async writeBulkValueSheet(
+    sheet: { columns: string[]; rows: Record<string, unknown>[] },
+    format: 'csv' | 'xlsx'
+  ): Promise<Buffer | string> {
+    if (format === 'xlsx') {
+      return await toXlsx(sheet.rows, sheet.columns, 'KPI values');
+    }
+    return toCsv(sheet.rows, sheet.columns);
+  }
+
+  /**
+   * Apply a filled value sheet. Every row is validated and scored like a
+   * values update of its entry and a row level report is returned.
+   * - partial: valid rows are applied, invalid rows are reported
+   * - all_or_nothing: nothing is applied unless every row is valid; when
+   *   an entry changes while the sheet is applied the rows already written
+   *   are rolled back (rows that cannot be restored are reported)
+   * With `draft` blank cells keep the saved values and required items are
+   * not enforced; otherwise every row is saved as the full set of values.
+   */
+  static async uploadBulkValueSheet(
+    upload: {
+      templateId: string;
+      month: number;
+      year: number;
+      format: 'csv' | 'xlsx';
+      content: string;
+      mode?: 'partial' | 'all_or_nothing';
+      draft?: boolean;
+      dryRun?: boolean;
+    },
+    uploadedBy: string
+  ) {
+    try {
+      const { templateId, month, year } = upload;
+      const mode = upload.mode || 'partial';
+      const draft = upload.draft || false;
+
+      const template = await KpiTemplateService.getKpiTemplate(templateId);
+      if (!template) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${templateId}`,
+        });
+      }
+
+      let records: Record<string, string>[];
+      try {
+        records =
+          upload.format === 'xlsx'
+            ? await parseXlsx(Buffer.from(upload.content, 'base64'))
+            : parseCsv(upload.content);
+      } catch (error) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Sheet',
+          MESSAGE: `Could not read the ${upload.format} sheet: ${(error as Error).message}`,
+        });
+      }
+      if (records.length === 0) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Empty Sheet',
+          MESSAGE: 'The uploaded sheet has no rows',
+        });
+      }
+
+      const entries = await KpiEntryModel.find({
+        kpiTemplateId: templateId,
+        month,
+        year,
+      }).lean();
+      const entriesById = new Map(
+        entries.map((entry) => [entry._id.toString(), entry])
+      );
+
+      const uploader = await MemberService.getMemberByUserId(uploadedBy);
+      const userRole = uploader?.role;
+      const userDepartment = uploader?.departmentSlug;
+
+      // Scoring templates are shared by the entries pinned to the same version
+      const scoringTemplates = new Map<
+        number | undefined,
+        Awaited<ReturnType<typeof KpiTemplateService.getScoringTemplate>>
+      >();
+      const getScoringTemplate = async (version?: number) => {
+        if (!scoringTemplates.has(version)) {
+          scoringTemplates.set(
+            version,
+            await KpiTemplateService.getScoringTemplate(templateId, version)
+          );
+        }
+        return scoringTemplates.get(version);
+      };
+
+      const seenEntryIds = new Set<string>();
+      const rows = [];
+      const updates = [];
+
+      for (const [index, record] of records.entries()) {
+        const entryId = (record.entryId || '').trim();
+        const row = {
+          row: index + 2, // Sheet row, after the header
+          entryId,
+          createdFor: record.createdFor || '',
+          kpirefs: record.kpirefs || '',
+          result: 'invalid' as
+            'invalid' | 'valid' | 'unchanged' | 'updated' | 'rolled_back',
+          errors: [] as string[],
+          totalScore: undefined as number | undefined,
+          normalizedScore: undefined as number | undefined,
+        };
+        rows.push(row);
+
+        const entry = entriesById.get(entryId);
+        if (!entry) {
+          row.errors.push(
+            `Entry ${entryId || '(blank)'} is not an entry of this template for ${month}/${year}`
+          );
+          continue;
+        }
+        if (seenEntryIds.has(entryId)) {
+          row.errors.push(`Entry ${entryId} appears more than once`);
+          continue;
+        }
+        seenEntryIds.add(entryId);
+
+        row.createdFor = entry.createdFor;
+        row.kpirefs = entry.kpirefs || '';
+        if (record.createdFor && record.createdFor !== entry.createdFor) {
+          row.errors.push(
+            `createdFor ${record.createdFor} does not match the entry (${entry.createdFor})`
+          );
+          continue;
+        }
+
+        // Reopened entries are corrected one at a time through the values update
+        if (
+          !EDITABLE_STATUSES.includes(entry.status) ||
+          entry.status === 'correction'
+        ) {
+          row.errors.push(`Cannot update an entry that is ${entry.status}`);
+          continue;
+        }
+
+        try {
+          this.assertSubmissionWindowOpen(entry, template.submissionWindow);
+        } catch (error) {
+          row.errors.push((error as APIError).message);
+          continue;
+        }
+
+        if (
+          userRole &&
+          userDepartment &&
+          !(await this.validateNodalOfficerPermission(
+            userRole,
+            userDepartment,
+            entry
+          ))
+        ) {
+          row.errors.push(
+            'Only nodal officers can update KPI entries for their assigned roles'
+          );
+          continue;
+        }
+
+        const scoringTemplate = await getScoringTemplate(entry.templateVersion);
+        if (!scoringTemplate) {
+          row.errors.push(`KPI template not found: ${templateId}`);
+          continue;
+        }
+
+        const { values, errors } = this.parseBulkValueCells(
+          record,
+          entry.values,
+          scoringTemplate.template
+        );
+        if (errors.length > 0) {
+          row.errors.push(...errors);
+          continue;
+        }
+
+        // Rows left blank are not part of the upload
+        if (values.length === 0) {
+          row.result = 'unchanged';
+          continue;
+        }
+
+        try {
+          const prepared = this.prepareKpiEntryValues(
+            draft
+              ? this.mergeDraftValues(
+                  entry.values,
+                  values,
+                  scoringTemplate.template
+                )
+              : values,
+            scoringTemplate,
+            { partial: draft }
+          );
+
+          row.totalScore = prepared.totalScore;
+          row.normalizedScore = prepared.normalizedScore;
+          const isUnchanged =
+            entry.status !== 'created' &&
+            this.diffEntryValues(entry.values, prepared.values).length === 0;
+          row.result = isUnchanged ? 'unchanged' : 'valid';
+          if (!isUnchanged) updates.push({ row, entry, prepared });
+        } catch (error) {
+          row.errors.push((error as APIError).message);
+        }
+      }
+
+      const invalidCount = rows.filter(
+        (row) => row.result === 'invalid'
+      ).length;
+      const apply =
+        !upload.dryRun &&
+        updates.length > 0 &&
+        (mode === 'partial' || invalidCount === 0);
+
+      let rolledBack = false;
+      if (apply) {
+        const written = [];
+        for (const update of updates) {
+          const { row, entry, prepared } = update;
+          // Only write entries still in the status they were validated in
+          const { values, dropped } = this.keepValueAttachments(
+            entry.values,
+            prepared.values
+          );
+          const result = await KpiEntryModel.updateOne(
+            { _id: entry._id, status: entry.status },
+            {
+              values,
+              totalScore: prepared.totalScore,
+              normalizedScore: prepared.normalizedScore,
+              sectionScores: prepared.sectionScores,
+              completeness: prepared.completeness,
+              status: 'initiated',
+            }
+          );
+          if (result.matchedCount === 0) {
+            row.result = 'invalid';
+            row.errors.push('The entry changed while the sheet was applied');
+            if (mode === 'all_or_nothing') {
+              rolledBack = true;
+              break;
+            }
+            continue;
+          }
+          written.push({ ...update, dropped });
+        }
+
+        for (const { row, entry, prepared, dropped } of written) {
+          if (rolledBack) {
+            // Restore the entry unless it changed again since it was written
+            const restored = await KpiEntryModel.updateOne(
+              {
+                _id: entry._id,
+                status: 'initiated',
+                totalScore: prepared.totalScore,
+              },
+              {
+                $set: {
+                  values: entry.values,
+                  totalScore: entry.totalScore,
+                  normalizedScore: entry.normalizedScore,
+                  sectionScores: entry.sectionScores,
+                  status: entry.status,
+                  ...(entry.completeness
+                    ? { completeness: entry.completeness }
+                    : {}),
+                },
+                ...(entry.completeness ? {} : { $unset: { completeness: 1 } }),
+              }
+            );
+            if (restored.matchedCount > 0) {
+              row.result = 'rolled_back';
+              row.errors.push(
+                'Rolled back as another row of the sheet could not be applied'
+              );
+              continue;
+            }
+            row.errors.push(
+              'Could not be rolled back as the entry changed after it was written'
+            );
+            logger.warn(
+              `Bulk KPI value upload could not roll back entry ${entry._id}`
+            );
+          }
+
+          await this.deleteAttachmentFiles(dropped);
+
+          row.result = 'updated';
+          this.logValueChanges(
+            entry,
+            prepared.values,
+            prepared.totalScore,
+            uploadedBy
+          );
+        }
+      }
+
+      const summary = {
+        rows: rows.length,
+        valid: rows.filter((row) => ['valid', 'updated'].includes(row.result))
+          .length,
+        unchanged: rows.filter((row) => row.result === 'unchanged').length,
+        invalid: rows.filter((row) => row.result === 'invalid').length,
+        updated: rows.filter((row) => row.result === 'updated').length,
+        rolledBack: rows.filter((row) => row.result === 'rolled_back').length,
+      };
+
+      logger.info(
+        `Bulk KPI value upload for template ${templateId} (${month}/${year}) by ${uploadedBy}: ${summary.updated} updated, ${summary.invalid} invalid`
       );
 
-      await Promise.all(updatePromises);
+      return {
+        templateId,
+        month,
+        year,
+        mode,
+        draft,
+        dryRun: upload.dryRun || false,
+        // Whether any row was written, false after a complete rollback
+        applied: summary.updated > 0,
+        rolledBack,
+        summary,
+        rows,
+      };
+    } catch (error) {
+      logger.error('Error uploading KPI value sheet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert the item cells of a sheet row to typed values. Blank cells are
+   * left out, comments and bypassed scores saved on the entry are kept when
+   * the value is unchanged.
+   */
+  static parseBulkValueCells(
+    record: Record<string, string>,
+    savedValues: KpiEntry['values'],
+    templateItems: TemplateItem[]
+  ) {
+    const values: Array<{
+      name: string;
+      value: number | string | boolean;
+      score?: number;
+      comments?: string;
+      isByPassed?: boolean;
+    }> = [];
+    const errors: string[] = [];
+
+    for (const item of templateItems) {
+      if (item.kpiType === 'formula') continue;
+
+      const cell = (record[item.name] ?? '').trim();
+      if (cell === '') continue;
+
+      const saved = savedValues.find((value) => value.name === item.name);
+      if (saved?.isByPassed && String(saved.value) === cell) {
+        values.push({
+          name: saved.name,
+          value: saved.value,
+          score: saved.score,
+          comments: saved.comments,
+          isByPassed: true,
+        });
+        continue;
+      }
+
+      let value: number | string | boolean = cell;
+      if (
+        item.kpiType === 'quantitative' ||
+        item.kpiType === 'percentage' ||
+        item.kpiType === 'score'
+      ) {
+        value = Number(cell.replace(/%$/, ''));
+        if (Number.isNaN(value)) {
+          errors.push(`${item.name} expects a number, got "${cell}"`);
+          continue;
+        }
+      } else if (item.kpiType === 'binary') {
+        const normalized = cell.toLowerCase();
+        if (['true', 'yes', '1'].includes(normalized)) {
+          value = true;
+        } else if (['false', 'no', '0'].includes(normalized)) {
+          value = false;
+        } else {
+          errors.push(`${item.name} expects yes or no, got "${cell}"`);
+          continue;
+        }
+      }
+
+      values.push({
+        name: item.name,
+        value,
+        ...(saved?.comments && { comments: saved.comments }),
+      });
+    }
 
-      logger.info(
-        `Generated ${entries.length} final KPI reports for template ${templateId}`
-      );
+    return { values, errors };
+  }
 
-      // Log the report generation
-      KpiAuditLogService.create({
-        type: 'entry',
-        userId: generatedBy,
-        action: 'generate_report',
-        changes: [
-          {
-            field: 'final_reports_generated',
-            oldValue: null,
-            newValue: {
-              templateId,
-              month,
-              year,
-              entriesCount: entries.length,
-            },
-          },
-        ],
-      });
+  /**
+   * Rank of an entry among the locked (generated or reopened) entries of its
+   * template and period, by total score
+   */
+  static async getLockedEntryRank(entry: {
+    _id: unknown;
+    kpiTemplateId: string;
+    period?: { type: PeriodType; key: string };
+    month: number;
+    year: number;
+  }) {
+    const lockedEntries = await KpiEntryModel.find({
+      kpiTemplateId: entry.kpiTemplateId,
+      ...this.getPeriodFilter(
+        entry.period || {
+          type: 'monthly',
+          key: getMonthlyPeriodKey(entry.month, entry.year),
+        }
+      ),
+      status: { $in: ['generated', 'correction'] },
+    })
+      .select('_id totalScore')
+      .lean();
 
-      return {
-        message: `Successfully generated ${entries.length} final KPI reports`,
-        entriesCount: entries.length,
-        templateId,
-        month,
-        year,
-      };
-    } catch (error) {
-      logger.error('Error generating final KPI reports:', error);
-      throw error;
-    }
+    const ranks = this.rankEntries(
+      lockedEntries.map((e) => ({ id: e._id.toString(), score: e.totalScore }))
+    );
+    return ranks.get(String(entry._id)) ?? null;
+  }
+
+  /**
+   * Rank entries by score, highest first
+   */
+  static rankEntries(entries: { id: string; score: number }[]) {
+    const ranks = new Map<string, number>();
+    [...entries]
+      .sort((a, b) => b.score - a.score)
+      .forEach((entry, index) => ranks.set(entry.id, index + 1));
+    return ranks;
   }
 
   /**
    * Get KPI entries statistics by department and role with month and year
    * Adapted for new flow with kpirefs field
+   *
+   * Runs as one aggregation over the members: every member is unwound into
+   * a row per kpiref, joined to its entry for the month and to its user,
+   * ranked server side and paginated, with the totals computed in a facet.
    */
   static async getKpiEntriesStatisticsByDepartmentAndRoleWithMonthAndYear(
     page: string,
@@ -723,11 +4094,18 @@ export class KpiEntryService {
     department?: string,
     role?: string,
     month?: string,
-    year?: string
+    year?: string,
+    sortBy: 'totalScore' | 'normalizedScore' = 'totalScore',
+    section?: string,
+    awaitingClarification?: boolean,
+    period?: string
   ) {
     try {
-      const pageNum = Number(page) || 1;
-      const limitNum = Number(limit) || 100;
+      const pageNum = Math.max(Number(page) || 1, 1);
+      const limitNum = Math.max(Number(limit) || 100, 1);
+      // Normalized scores allow rankings across templates with different maxMarks
+      const scoreField =
+        sortBy === 'normalizedScore' ? 'normalizedScore' : 'totalScore';
 
       // Handle month and year calculation properly
       let monthNum: number;
@@ -773,303 +4151,383 @@ export class KpiEntryService {
         }
       }
 
-      // Build member query based on provided parameters
-      const memberQuery: any = {};
-      if (department) memberQuery.department = department; // MemberService expects 'department'
-      if (role) memberQuery.role = role;
-
-      // Get All members (filtered by department/role if provided, or all if not provided)
-      // For statistics, we want ALL members, not paginated
-      const members = await MemberService.getMembers({
-        ...memberQuery,
-        page: 1,
-        limit: 10000, // Get all members for statistics
-      });
-
-      // Filter out nodalOfficer roles and collector-office department
-      const filteredMembers = {
-        ...members,
-        docs: filterExcludedMembers(members.docs),
-      };
-
-      // Debug logging for members
-      logger.info('Members debug:', {
-        totalMembers: members.total,
-        filteredMembersCount: filteredMembers.docs.length,
-        memberQuery,
-      });
+      // A period key selects the entries of that reporting period (weekly,
+      // quarterly, ...) instead of a calendar month
+      const statisticsPeriod = period ? getPeriodByKey(period) : null;
+      if (period && !statisticsPeriod) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Period',
+          MESSAGE: `${period} is not a valid period key`,
+        });
+      }
+      if (statisticsPeriod) {
+        ({ month: monthNum, year: yearNum } = getPeriodMonth(statisticsPeriod));
+      }
+      const periodLabel =
+        statisticsPeriod?.key ||
+        format(new Date(yearNum, monthNum - 1, 1), 'MMMM yyyy');
 
       // Build KPI entries query
-      const kpiEntriesQuery: any = {
-        month: monthNum,
-        year: yearNum,
-      };
+      const kpiEntriesQuery: FilterQuery<KpiEntry> = statisticsPeriod
+        ? this.getPeriodFilter(statisticsPeriod)
+        : {
+            month: monthNum,
+            year: yearNum,
+          };
 
       // Add template filter only if templateId is provided
       if (templateId) {
         kpiEntriesQuery.kpiTemplateId = templateId;
       }
 
-      // Get All KPI entries for the month
-      const kpiEntries = await KpiEntryModel.find(kpiEntriesQuery).lean();
-
-      // Debug logging
       logger.info('Statistics query debug:', {
         kpiEntriesQuery,
-        monthNum,
-        yearNum,
         templateId,
         department,
         role,
-        kpiEntriesCount: kpiEntries.length,
-        membersCount: filteredMembers.docs.length,
       });
 
       // Check if there are any entries for the specified month
-      if (kpiEntries.length === 0) {
+      if (!(await KpiEntryModel.exists(kpiEntriesQuery))) {
         throw new APIError({
           STATUS: 404,
           TITLE: 'No KPI Entries Found',
-          MESSAGE: `No KPI entries found for ${format(new Date(yearNum, monthNum - 1, 1), 'MMMM yyyy')}. Please ensure monthly entries are generated first.`,
+          MESSAGE: `No KPI entries found for ${periodLabel}. Please ensure entries are generated first.`,
         });
       }
 
-      // For previous months, only show generated entries
-      if (month && Number(month) < 0) {
-        const generatedEntries = kpiEntries.filter(
-          (entry) => entry.status === 'generated'
-        );
-        if (generatedEntries.length === 0) {
-          throw new APIError({
-            STATUS: 404,
-            TITLE: 'No Generated Reports Found',
-            MESSAGE: `No generated KPI reports found for ${format(new Date(yearNum, monthNum - 1, 1), 'MMMM yyyy')}. Please generate reports first before viewing statistics.`,
-          });
-        }
+      // For previous months (or periods), only show generated entries
+      const isPastPeriod = statisticsPeriod
+        ? statisticsPeriod.endDate <= currentDate
+        : month && Number(month) < 0;
+      if (
+        isPastPeriod &&
+        !(await KpiEntryModel.exists({
+          ...kpiEntriesQuery,
+          status: 'generated',
+        }))
+      ) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'No Generated Reports Found',
+          MESSAGE: `No generated KPI reports found for ${periodLabel}. Please generate reports first before viewing statistics.`,
+        });
       }
 
-      // Create a map of existing entries by member ID and kpiref
-      const entriesMap = new Map();
-      kpiEntries.forEach((entry) => {
-        const memberId = entry.createdFor;
-        const kpiref = entry.kpirefs; // Each entry has a specific kpiref
-
-        if (!entriesMap.has(memberId)) {
-          entriesMap.set(memberId, new Map());
-        }
-        entriesMap.get(memberId).set(kpiref, entry);
-      });
-
-      // Create rankings array - one entry per kpiref per member
-      const rankings: {
-        memberId: string;
-        memberName: string;
-        memberEmail: string;
-        memberDepartment: string;
-        memberRole: string;
-        ranking: number;
-        totalScore: number;
-        hasEntry: boolean;
-        entryId?: string;
-        status: string;
-        kpiref: string;
-        jurisdiction?: string[];
-      }[] = [];
-
-      // Process all members - create one ranking entry per kpiref
-      filteredMembers.docs.forEach((member: any) => {
-        const memberKpirefs = member.metadata?.kpirefs || [];
-        const memberEntriesMap = entriesMap.get(member.userId) || new Map();
-
-        // If member has no kpirefs, check if they have any KPI entries
-        if (memberKpirefs.length === 0) {
-          // Check if member has any KPI entries (for members without kpirefs)
-          const memberEntries = kpiEntries.filter(
-            (entry) => entry.createdFor === member.userId
-          );
-          const entry = memberEntries.length > 0 ? memberEntries[0] : null;
-
-          let totalScore = 0;
-          let hasEntry = false;
-          let status = 'no-entry';
-          let entryId = undefined;
-          let jurisdiction: string[] = [];
-
-          if (entry) {
-            status = entry.status;
-            entryId = entry._id.toString();
-            jurisdiction = entry.jurisdiction || [];
-
-            // hasEntry is true only for initiated or generated status
-            if (entry.status === 'initiated' || entry.status === 'generated') {
-              hasEntry = true;
-              totalScore = entry.totalScore || 0;
-            }
-          }
-
-          rankings.push({
-            memberId: member.userId,
-            memberName: member.user?.name || 'Unknown',
-            memberEmail: member.user?.email || 'Unknown',
-            memberDepartment: member.departmentSlug,
-            memberRole: member.role,
-            ranking: 0,
-            totalScore,
-            hasEntry,
-            entryId,
-            status,
-            kpiref: 'no-kpiref',
-            jurisdiction,
-          });
-          return;
-        }
-
-        // Create one ranking entry for each kpiref
-        memberKpirefs.forEach((kpiref: string) => {
-          const entry = memberEntriesMap.get(kpiref);
-
-          let totalScore = 0;
-          let hasEntry = false;
-          let status = 'no-entry';
-          let entryId = undefined;
-          let jurisdiction: string[] = [];
-
-          if (entry) {
-            status = entry.status;
-            entryId = entry._id;
-            jurisdiction = entry.jurisdiction || [];
-
-            // hasEntry is true only for initiated or generated status
-            if (entry.status === 'initiated' || entry.status === 'generated') {
-              hasEntry = true;
-              totalScore = entry.totalScore || 0;
-            }
-            // For 'created' status, hasEntry remains false and totalScore remains 0
-          }
-
-          rankings.push({
-            memberId: member.userId,
-            memberName: member.user?.name || 'Unknown',
-            memberEmail: member.user?.email || 'Unknown',
-            memberDepartment: member.departmentSlug,
-            memberRole: member.role,
-            ranking: 0, // Will be calculated after sorting
-            totalScore,
-            hasEntry,
-            entryId,
-            status,
-            kpiref,
-            jurisdiction,
-          });
-        });
+      const round = (value: unknown) => ({
+        $divide: [
+          { $floor: { $add: [{ $multiply: [value, 100] }, 0.5] } },
+          100,
+        ],
       });
 
-      // For current month: show all entries but rank only generated ones
-      // For previous months: rank only generated entries
-      const isCurrentMonth =
-        monthNum === currentMonth && yearNum === currentYear;
-
-      if (isCurrentMonth) {
-        // Current month: show all entries, rank only generated
-        rankings.sort((a, b) => {
-          // First, sort by status priority: generated > initiated > created > no-entry
-          const statusPriority: Record<string, number> = {
-            generated: 4,
-            initiated: 3,
-            created: 2,
-            'no-entry': 1,
-          };
-          const aPriority = statusPriority[a.status] || 0;
-          const bPriority = statusPriority[b.status] || 0;
-          if (aPriority !== bPriority) {
-            return bPriority - aPriority; // Higher priority first
-          }
-          // If same status, sort by total score (highest to lowest)
-          return b.totalScore - a.totalScore;
-        });
-
-        // Assign rankings only to generated entries, others get 0
-        let rankingCounter = 1;
-        rankings.forEach((ranking) => {
-          if (ranking.status === 'generated') {
-            ranking.ranking = rankingCounter++;
-          } else {
-            ranking.ranking = 0; // No ranking for non-generated entries in current month
+      // With a section filter rankings use that section's subtotal (or its
+      // share of the section maxMarks when sorting by normalized score)
+      const rankingScore = section
+        ? {
+            $let: {
+              vars: {
+                sectionScore: {
+                  $first: {
+                    $filter: {
+                      input: '$sectionScores',
+                      cond: { $eq: ['$$this.name', section] },
+                    },
+                  },
+                },
+              },
+              in: {
+                $cond: [
+                  { $not: ['$$sectionScore'] },
+                  0,
+                  scoreField === 'totalScore'
+                    ? '$$sectionScore.score'
+                    : {
+                        $cond: [
+                          { $gt: ['$$sectionScore.maxMarks', 0] },
+                          round({
+                            $multiply: [
+                              {
+                                $divide: [
+                                  '$$sectionScore.score',
+                                  '$$sectionScore.maxMarks',
+                                ],
+                              },
+                              100,
+                            ],
+                          }),
+                          0,
+                        ],
+                      },
+                ],
+              },
+            },
           }
-        });
-      } else {
-        // Previous months: rank only generated entries
-        const generatedRankings = rankings.filter(
-          (r) => r.status === 'generated'
-        );
-        generatedRankings.sort((a, b) => b.totalScore - a.totalScore);
+        : `$${scoreField}`;
 
-        // Assign rankings only to generated entries
-        generatedRankings.forEach((ranking, index) => {
-          ranking.ranking = index + 1;
-        });
+      // Rankings shown when only pending queries are listed keep the
+      // positions they have among all rankings
+      const rankingsFilter: PipelineStage.FacetPipelineStage[] =
+        awaitingClarification
+          ? [{ $match: { awaitingClarification: true } }]
+          : [];
 
-        // Set ranking to 0 for non-generated entries
-        rankings.forEach((ranking) => {
-          if (ranking.status !== 'generated') {
-            ranking.ranking = 0;
-          }
-        });
-      }
+      const [result] = await MemberModel.aggregate<StatisticsFacet>([
+        { $match: getStatisticsMembersQuery(department, role) },
+        // One row per kpiref, members without kpirefs get a single row
+        // matched to any of their entries
+        {
+          $set: {
+            kpiref: {
+              $cond: [
+                { $isArray: '$metadata.kpirefs' },
+                {
+                  $cond: [
+                    { $gt: [{ $size: '$metadata.kpirefs' }, 0] },
+                    '$metadata.kpirefs',
+                    ['no-kpiref'],
+                  ],
+                },
+                ['no-kpiref'],
+              ],
+            },
+          },
+        },
+        { $unwind: '$kpiref' },
+        {
+          $lookup: {
+            from: KpiEntryModel.collection.name,
+            localField: 'userId',
+            foreignField: 'createdFor',
+            let: { kpiref: '$kpiref' },
+            pipeline: [
+              {
+                $match: {
+                  $and: [
+                    kpiEntriesQuery,
+                    {
+                      $expr: {
+                        $or: [
+                          { $eq: ['$$kpiref', 'no-kpiref'] },
+                          { $eq: ['$kpirefs', '$$kpiref'] },
+                        ],
+                      },
+                    },
+                  ],
+                },
+              },
+              { $limit: 1 },
+            ],
+            as: 'entry',
+          },
+        },
+        MEMBER_USER_LOOKUP,
+        { $set: { entry: { $first: '$entry' }, user: { $first: '$user' } } },
+        {
+          $set: {
+            status: { $ifNull: ['$entry.status', 'no-entry'] },
+            // hasEntry is true once values have been saved
+            hasEntry: {
+              $and: [
+                { $ne: [{ $ifNull: ['$entry', null] }, null] },
+                { $ne: ['$entry.status', 'created'] },
+              ],
+            },
+          },
+        },
+        {
+          $set: {
+            totalScore: {
+              $cond: ['$hasEntry', { $ifNull: ['$entry.totalScore', 0] }, 0],
+            },
+            normalizedScore: {
+              $cond: [
+                '$hasEntry',
+                { $ifNull: ['$entry.normalizedScore', 0] },
+                0,
+              ],
+            },
+            sectionScores: {
+              $cond: [
+                '$hasEntry',
+                { $ifNull: ['$entry.sectionScores', []] },
+                [],
+              ],
+            },
+            awaitingClarification: {
+              $eq: ['$entry.awaitingClarification', true],
+            },
+            // Officer's self-assessed score next to the official one
+            selfAssessmentScore: {
+              $ifNull: [`$entry.selfAssessment.${scoreField}`, null],
+            },
+          },
+        },
+        {
+          $set: {
+            rankingScore,
+            statusPriority: {
+              $add: [{ $indexOfArray: [STATUS_PRIORITY, '$status'] }, 1],
+            },
+            isGenerated: { $eq: ['$status', 'generated'] },
+            // The variance is only meaningful once official values have
+            // been saved
+            assessmentVariance: {
+              $cond: [
+                {
+                  $and: ['$hasEntry', { $ne: ['$selfAssessmentScore', null] }],
+                },
+                round({
+                  $subtract: ['$selfAssessmentScore', `$${scoreField}`],
+                }),
+                null,
+              ],
+            },
+          },
+        },
+        // Rank only generated entries, highest score first
+        {
+          $setWindowFields: {
+            partitionBy: '$isGenerated',
+            sortBy: { rankingScore: -1, userId: 1, kpiref: 1 },
+            output: { position: { $documentNumber: {} } },
+          },
+        },
+        { $set: { ranking: { $cond: ['$isGenerated', '$position', 0] } } },
+        {
+          $facet: {
+            rankings: [
+              ...rankingsFilter,
+              // Generated entries first in rank order, then by status
+              // (generated > correction > approved > reviewed > submitted >
+              // returned > initiated > created > no-entry) and score
+              {
+                $sort: {
+                  statusPriority: -1,
+                  rankingScore: -1,
+                  userId: 1,
+                  kpiref: 1,
+                },
+              },
+              { $skip: (pageNum - 1) * limitNum },
+              { $limit: limitNum },
+              {
+                $project: {
+                  _id: 0,
+                  memberId: '$userId',
+                  memberName: { $ifNull: ['$user.name', 'Unknown'] },
+                  memberEmail: { $ifNull: ['$user.email', 'Unknown'] },
+                  memberDepartment: '$departmentSlug',
+                  memberRole: '$role',
+                  ranking: 1,
+                  totalScore: 1,
+                  normalizedScore: 1,
+                  sectionScores: 1,
+                  ...(section ? { sectionScore: '$rankingScore' } : {}),
+                  hasEntry: 1,
+                  entryId: '$entry._id',
+                  status: 1,
+                  kpiref: 1,
+                  jurisdiction: { $ifNull: ['$entry.jurisdiction', []] },
+                  awaitingClarification: 1,
+                  selfAssessmentScore: 1,
+                  assessmentVariance: 1,
+                },
+              },
+            ],
+            total: [...rankingsFilter, { $count: 'count' }],
+            statistics: [
+              {
+                $group: {
+                  _id: null,
+                  totalRankings: { $sum: 1 },
+                  rankingsWithEntries: { $sum: { $cond: ['$hasEntry', 1, 0] } },
+                  averageScore: {
+                    $avg: { $cond: ['$hasEntry', '$totalScore', null] },
+                  },
+                  averageNormalizedScore: {
+                    $avg: { $cond: ['$hasEntry', '$normalizedScore', null] },
+                  },
+                  highestScore: {
+                    $max: { $cond: ['$hasEntry', '$rankingScore', null] },
+                  },
+                  lowestScore: {
+                    $min: { $cond: ['$hasEntry', '$rankingScore', null] },
+                  },
+                  awaitingClarificationCount: {
+                    $sum: { $cond: ['$awaitingClarification', 1, 0] },
+                  },
+                  selfAssessedCount: {
+                    $sum: {
+                      $cond: [{ $ne: ['$selfAssessmentScore', null] }, 1, 0],
+                    },
+                  },
+                },
+              },
+            ],
+            // Average subtotal per section over the rankings with entries
+            sectionAverages: [
+              { $match: { hasEntry: true } },
+              { $unwind: '$sectionScores' },
+              {
+                $group: {
+                  _id: '$sectionScores.name',
+                  maxMarks: { $first: '$sectionScores.maxMarks' },
+                  averageScore: { $avg: '$sectionScores.score' },
+                },
+              },
+              { $sort: { _id: 1 } },
+            ],
+          },
+        },
+      ]);
 
-      // Calculate statistics
-      const totalRankings = rankings.length;
-      const rankingsWithEntries = rankings.filter((r) => r.hasEntry).length;
-      const rankingsWithoutEntries = totalRankings - rankingsWithEntries;
-      const averageScore =
-        rankingsWithEntries > 0
-          ? rankings
-              .filter((r) => r.hasEntry)
-              .reduce((sum, r) => sum + r.totalScore, 0) / rankingsWithEntries
-          : 0;
-      const highestScore = rankings.length > 0 ? rankings[0].totalScore : 0;
-      const lowestScore =
-        rankingsWithEntries > 0
-          ? rankings.filter((r) => r.hasEntry).slice(-1)[0]?.totalScore || 0
-          : 0;
+      const statistics = result.statistics[0];
+      const totalRankings = statistics?.totalRankings || 0;
+      const rankingsWithEntries = statistics?.rankingsWithEntries || 0;
+      const total = result.total[0]?.count || 0;
 
       // Get all departments and roles (excluding collector-office)
-      const allMembers = await MemberService.getMembers({
-        page: 1,
-        limit: 10000, // Get all members to extract departments and roles
-      });
-
-      // Filter out collector-office and nodalOfficer roles
-      const filteredAllMembers = filterExcludedMembers(allMembers.docs);
-
-      // Extract unique departments and roles
-      const departments = [
-        ...new Set(
-          filteredAllMembers.map((member: any) => member.departmentSlug)
-        ),
-      ];
-      const roles = [
-        ...new Set(filteredAllMembers.map((member: any) => member.role)),
-      ];
+      const [departments, roles] = await Promise.all([
+        MemberModel.distinct('departmentSlug', excludedMembersQuery),
+        MemberModel.distinct('role', excludedMembersQuery),
+      ]);
 
       return {
-        rankings,
+        rankings: result.rankings,
         statistics: {
           totalRankings,
           rankingsWithEntries,
-          rankingsWithoutEntries,
-          averageScore: Math.round(averageScore * 100) / 100,
-          highestScore,
-          lowestScore,
-          completionRate: Math.round(
-            (rankingsWithEntries / totalRankings) * 100
-          ),
+          rankingsWithoutEntries: totalRankings - rankingsWithEntries,
+          averageScore: Math.round((statistics?.averageScore || 0) * 100) / 100,
+          averageNormalizedScore:
+            Math.round((statistics?.averageNormalizedScore || 0) * 100) / 100,
+          highestScore: statistics?.highestScore ?? 0,
+          lowestScore: statistics?.lowestScore ?? 0,
+          completionRate: totalRankings
+            ? Math.round((rankingsWithEntries / totalRankings) * 100)
+            : 0,
+          sectionAverages: result.sectionAverages.map((sectionAverage) => ({
+            name: sectionAverage._id,
+            maxMarks: sectionAverage.maxMarks,
+            averageScore: Math.round(sectionAverage.averageScore * 100) / 100,
+          })),
+          awaitingClarificationCount:
+            statistics?.awaitingClarificationCount || 0,
+          selfAssessedCount: statistics?.selfAssessedCount || 0,
         },
         department: department || 'All Departments',
         role: role || 'All Roles',
         templateId: templateId || 'All Templates',
+        sortBy: scoreField,
+        section: section || 'All Sections',
+        awaitingClarification: awaitingClarification || false,
+        period: statisticsPeriod?.key || getMonthlyPeriodKey(monthNum, yearNum),
         month: format(new Date(yearNum, monthNum - 1, 1), 'MMMM'),
         year: format(new Date(yearNum, monthNum - 1, 1), 'yyyy'),
+        fiscalYear: formatFiscalYear(getFiscalYear(monthNum, yearNum)),
+        fiscalQuarter: `Q${getFiscalQuarter(monthNum)}`,
         availableFilters: {
           departments: departments.sort(),
           roles: roles.sort(),
@@ -1077,13 +4535,465 @@ export class KpiEntryService {
         pagination: {
           page: pageNum,
           limit: limitNum,
-          total: totalRankings,
-          totalPages: Math.ceil(totalRankings / limitNum),
-          hasNextPage: pageNum < Math.ceil(totalRankings / limitNum),
+          total,
+          totalPages: Math.ceil(total / limitNum),
+          hasNextPage: pageNum < Math.ceil(total / limitNum),
           hasPreviousPage: pageNum > 1,
         },
       };
     } catch (error) {
+      logger.error('Error getting KPI entry statistics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fiscal year (April-March) statistics: generated reports of the months of
+   * a fiscal year, or one of its quarters, aggregated per officer and kpiref.
+   * Months not yet over are left out, so the current fiscal year gives
+   * year-to-date figures. Each officer gets a per month breakdown with the
+   * cumulative score and rank up to that month, and quarter subtotals.
+   */
+  static async getFiscalStatistics(options: {
+    fiscalYear?: string;
+    quarter?: string;
+    templateId?: string;
+    department?: string;
+    role?: string;
+    sortBy?: 'totalScore' | 'normalizedScore';
+  }) {
+    try {
+      const scoreField =
+        options.sortBy === 'normalizedScore' ? 'normalizedScore' : 'totalScore';
+      const current = getZonedMonth(new Date());
+      const currentFiscalYear = getFiscalYear(current.month, current.year);
+
+      // Negative values are relative to the current fiscal year, like the
+      // negative months of the monthly statistics
+      let fiscalYear: number | null = currentFiscalYear;
+      if (options.fiscalYear) {
+        fiscalYear =
+          Number(options.fiscalYear) < 0
+            ? currentFiscalYear + Number(options.fiscalYear)
+            : parseFiscalYear(options.fiscalYear);
+      }
+      if (fiscalYear === null) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Fiscal Year',
+          MESSAGE: `${options.fiscalYear} is not a fiscal year, use e.g. 2026-27`,
+        });
+      }
+
+      const quarter = options.quarter
+        ? parseFiscalQuarter(options.quarter)
+        : undefined;
+      if (quarter === null) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Fiscal Quarter',
+          MESSAGE: `${options.quarter} is not a fiscal quarter, use Q1 to Q4`,
+        });
+      }
+
+      const label = `${formatFiscalYear(fiscalYear)}${quarter ? ` Q${quarter}` : ''}`;
+      const months = getFiscalMonths(fiscalYear, quarter).filter(
+        ({ month, year }) =>
+          year * 12 + month <= current.year * 12 + current.month
+      );
+      if (months.length === 0) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Fiscal Period',
+          MESSAGE: `${label} has not started yet`,
+        });
+      }
+
+      const kpiEntriesQuery: FilterQuery<KpiEntry> = {
+        status: 'generated',
+        $or: months.map(({ month, year }) => ({ month, year })),
+      };
+      if (options.templateId) {
+        kpiEntriesQuery.kpiTemplateId = options.templateId;
+      }
+      const kpiEntries = await KpiEntryModel.find(kpiEntriesQuery).lean();
+
+      if (kpiEntries.length === 0) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'No Generated Reports Found',
+          MESSAGE: `No generated KPI reports found for ${label}. Please generate reports first before viewing statistics.`,
+        });
+      }
+
+      const members = await MemberModel.aggregate<StatisticsMember>([
+        { $match: getStatisticsMembersQuery(options.department, options.role) },
+        MEMBER_USER_LOOKUP,
+        {
+          $project: {
+            _id: 0,
+            userId: 1,
+            departmentSlug: 1,
+            role: 1,
+            name: { $first: '$user.name' },
+            email: { $first: '$user.email' },
+          },
+        },
+      ]);
+      const membersById = new Map(
+        members.map((member) => [member.userId, member])
+      );
+
+      // Scores per officer and kpiref, per month of the fiscal period
+      const monthKeys = months.map(({ month, year }) =>
+        getMonthlyPeriodKey(month, year)
+      );
+      const officers = new Map<
+        string,
+        {
+          memberId: string;
+          kpiref: string;
+          months: Map<
+            string,
+            { totalScore: number; normalizedScores: number[] }
+          >;
+        }
+      >();
+      for (const entry of kpiEntries) {
+        if (!membersById.has(entry.createdFor)) continue;
+
+        const kpiref = entry.kpirefs || 'no-kpiref';
+        const key = `${entry.createdFor}:${kpiref}`;
+        const officer = officers.get(key) || {
+          memberId: entry.createdFor,
+          kpiref,
+          months: new Map(),
+        };
+        const monthKey = getMonthlyPeriodKey(entry.month, entry.year);
+        // Weekly or daily templates have several entries in a month
+        const monthScores = officer.months.get(monthKey) || {
+          totalScore: 0,
+          normalizedScores: [],
+        };
+        monthScores.totalScore += entry.totalScore || 0;
+        monthScores.normalizedScores.push(entry.normalizedScore || 0);
+        officer.months.set(monthKey, monthScores);
+        officers.set(key, officer);
+      }
+
+      const average = (values: number[]) =>
+        values.length > 0
+          ? Math.round(
+              (values.reduce((sum, value) => sum + value, 0) / values.length) *
+                100
+            ) / 100
+          : 0;
+      const round = (value: number) => Math.round(value * 100) / 100;
+
+      // Cumulative scores month by month, ranked after each month
+      const cumulative = new Map<
+        string,
+        { totalScore: number; normalizedScores: number[] }
+      >();
+      const monthRanks = new Map<string, Map<string, number>>();
+      for (const monthKey of monthKeys) {
+        officers.forEach((officer, key) => {
+          const totals = cumulative.get(key) || {
+            totalScore: 0,
+            normalizedScores: [],
+          };
+          const monthScores = officer.months.get(monthKey);
+          if (monthScores) {
+            totals.totalScore += monthScores.totalScore;
+            totals.normalizedScores.push(...monthScores.normalizedScores);
+          }
+          cumulative.set(key, totals);
+        });
+        monthRanks.set(
+          monthKey,
+          this.rankEntries(
+            [...officers.keys()]
+              .filter((key) => cumulative.get(key)!.normalizedScores.length)
+              .map((key) => ({
+                id: key,
+                score:
+                  scoreField === 'totalScore'
+                    ? cumulative.get(key)!.totalScore
+                    : average(cumulative.get(key)!.normalizedScores),
+              }))
+          )
+        );
+      }
+
+      const quarterOf = new Map(
+        months.map(({ month, year }) => [
+          getMonthlyPeriodKey(month, year),
+          getFiscalQuarter(month),
+        ])
+      );
+      const quarters = [...new Set(quarterOf.values())];
+      const lastMonthKey = monthKeys[monthKeys.length - 1];
+
+      const rankings = [...officers.entries()]
+        .map(([key, officer]) => {
+          const member = membersById.get(officer.memberId);
+          let cumulativeScore = 0;
+          const monthly = monthKeys
+            .filter((monthKey) => officer.months.has(monthKey))
+            .map((monthKey) => {
+              const monthScores = officer.months.get(monthKey)!;
+              cumulativeScore += monthScores.totalScore;
+              return {
+                period: monthKey,
+                totalScore: round(monthScores.totalScore),
+                normalizedScore: average(monthScores.normalizedScores),
+                cumulativeScore: round(cumulativeScore),
+                cumulativeRank: monthRanks.get(monthKey)!.get(key) || 0,
+              };
+            });
+
+          return {
+            memberId: officer.memberId,
+            memberName: member?.name || 'Unknown',
+            memberEmail: member?.email || 'Unknown',
+            memberDepartment: member?.departmentSlug,
+            memberRole: member?.role,
+            kpiref: officer.kpiref,
+            ranking: monthRanks.get(lastMonthKey)!.get(key) || 0,
+            ytdScore: round(cumulative.get(key)!.totalScore),
+            averageNormalizedScore: average(
+              cumulative.get(key)!.normalizedScores
+            ),
+            monthsReported: monthly.length,
+            quarters: quarters.map((fiscalQuarter) => {
+              const quarterMonths = monthly.filter(
+                (m) => quarterOf.get(m.period) === fiscalQuarter
+              );
+              return {
+                quarter: `Q${fiscalQuarter}`,
+                totalScore: round(
+                  quarterMonths.reduce((sum, m) => sum + m.totalScore, 0)
+                ),
+                averageNormalizedScore: average(
+                  quarterMonths.map((m) => m.normalizedScore)
+                ),
+                monthsReported: quarterMonths.length,
+              };
+            }),
+            months: monthly,
+          };
+        })
+        .sort((a, b) => a.ranking - b.ranking);
+
+      const rankingField =
+        scoreField === 'totalScore' ? 'ytdScore' : 'averageNormalizedScore';
+
+      return {
+        rankings,
+        statistics: {
+          totalRankings: rankings.length,
+          averageYtdScore: average(rankings.map((r) => r.ytdScore)),
+          averageNormalizedScore: average(
+            rankings.map((r) => r.averageNormalizedScore)
+          ),
+          highestScore:
+            rankings.length > 0
+              ? Math.max(...rankings.map((r) => r[rankingField]))
+              : 0,
+          lowestScore:
+            rankings.length > 0
+              ? Math.min(...rankings.map((r) => r[rankingField]))
+              : 0,
+          monthsCovered: monthKeys.length,
+        },
+        fiscalYear: formatFiscalYear(fiscalYear),
+        quarter: quarter ? `Q${quarter}` : 'All Quarters',
+        from: monthKeys[0],
+        to: lastMonthKey,
+        months: monthKeys,
+        department: options.department || 'All Departments',
+        role: options.role || 'All Roles',
+        templateId: options.templateId || 'All Templates',
+        sortBy: scoreField,
+      };
+    } catch (error) {
+      logger.error('Error getting fiscal KPI statistics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Per item breakdown of the entries of a month (or period): for every
+   * template item the average, lowest and highest score, how many entries
+   * completed or bypassed it, and the average as a share of its maxMarks to
+   * spot the items pulling scores down. Entries are counted against the
+   * items of the template version they are pinned to. Entries without
+   * saved values are left out; department and role filter the officers
+   * like the statistics.
+   */
+  static async getItemStatistics(options: {
+    templateId?: string;
+    department?: string;
+    role?: string;
+    month?: number;
+    year?: number;
+    period?: string;
+  }) {
+    try {
+      const statisticsPeriod = options.period
+        ? getPeriodByKey(options.period)
+        : null;
+      if (options.period && !statisticsPeriod) {
+        throw new APIError({
+          STATUS: 400,
+          TITLE: 'Invalid Period',
+          MESSAGE: `${options.period} is not a valid period key`,
+        });
+      }
+      const current = getZonedMonth(new Date());
+      const { month, year } = statisticsPeriod
+        ? getPeriodMonth(statisticsPeriod)
+        : {
+            month: options.month || current.month,
+            year: options.year || current.year,
+          };
+      const periodKey =
+        statisticsPeriod?.key || getMonthlyPeriodKey(month, year);
+
+      const memberIds = new Set<string>(
+        await MemberModel.distinct(
+          'userId',
+          getStatisticsMembersQuery(options.department, options.role)
+        )
+      );
+
+      const kpiEntriesQuery: FilterQuery<KpiEntry> = {
+        ...(statisticsPeriod
+          ? this.getPeriodFilter(statisticsPeriod)
+          : { month, year }),
+        status: { $ne: 'created' },
+      };
+      if (options.templateId) {
+        kpiEntriesQuery.kpiTemplateId = options.templateId;
+      }
+      const kpiEntries = (
+        await KpiEntryModel.find(kpiEntriesQuery).lean()
+      ).filter((entry) => memberIds.has(entry.createdFor));
+
+      if (kpiEntries.length === 0) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'No KPI Entries Found',
+          MESSAGE: `No KPI entries with saved values found for ${periodKey}`,
+        });
+      }
+
+      const round = (value: number) => Math.round(value * 100) / 100;
+      const templates = [];
+      for (const templateId of new Set(
+        kpiEntries.map((entry) => entry.kpiTemplateId)
+      )) {
+        const template = await KpiTemplateService.getKpiTemplate(templateId);
+        const templateEntries = kpiEntries.filter(
+          (entry) => entry.kpiTemplateId === templateId
+        );
+
+        // Items of the versions the entries are pinned to, latest first, so
+        // every entry is only counted for the items it was scored against
+        const versionItems = new Map<number | undefined, TemplateItem[]>();
+        for (const templateVersion of new Set(
+          templateEntries.map((entry) => entry.templateVersion)
+        )) {
+          const scoringTemplate = await KpiTemplateService.getScoringTemplate(
+            templateId,
+            templateVersion
+          );
+          versionItems.set(
+            templateVersion,
+            (scoringTemplate?.template || []) as TemplateItem[]
+          );
+        }
+        const latestItems = [...versionItems.entries()]
+          .sort(([a], [b]) => (b || 0) - (a || 0))
+          .flatMap(([, items]) => items);
+        const names = [...new Set(latestItems.map((item) => item.name))];
+
+        const items = names.map((name) => {
+          const templateItem = latestItems.find((item) => item.name === name)!;
+          const scored = templateEntries.flatMap((entry) => {
+            const pinnedItem = versionItems
+              .get(entry.templateVersion)!
+              .find((item) => item.name === name);
+            return pinnedItem
+              ? [
+                  {
+                    maxMarks: pinnedItem.maxMarks,
+                    value: entry.values.find((value) => value.name === name),
+                  },
+                ]
+              : [];
+          });
+          const withValues = scored.flatMap(({ maxMarks, value }) =>
+            value ? [{ maxMarks, value }] : []
+          );
+          const completed = withValues.filter(
+            ({ value }) =>
+              !value.isByPassed &&
+              value.value !== undefined &&
+              value.value !== null &&
+              value.value !== ''
+          );
+          const scores = completed.map(({ value }) => value.score || 0);
+          const average = (values: number[]) =>
+            values.length
+              ? round(values.reduce((sum, v) => sum + v, 0) / values.length)
+              : null;
+          // Shares of maxMarks per entry, as maxMarks can differ by version
+          const percents = completed
+            .filter(({ maxMarks }) => maxMarks > 0)
+            .map(
+              ({ value, maxMarks }) => ((value.score || 0) / maxMarks) * 100
+            );
+
+          return {
+            name,
+            section: templateItem.section,
+            kpiType: templateItem.kpiType,
+            maxMarks: templateItem.maxMarks ?? null,
+            averageScore: average(scores),
+            minScore: scores.length ? Math.min(...scores) : null,
+            maxScore: scores.length ? Math.max(...scores) : null,
+            averageScorePercent: average(percents),
+            entriesCount: scored.length,
+            completedCount: completed.length,
+            bypassedCount: withValues.filter(({ value }) => value.isByPassed)
+              .length,
+            missingCount: scored.length - withValues.length,
+            completionRate: scored.length
+              ? Math.round((completed.length / scored.length) * 100)
+              : 0,
+          };
+        });
+
+        templates.push({
+          templateId,
+          templateName: template?.name || 'Unknown',
+          entriesCount: templateEntries.length,
+          items,
+        });
+      }
+
+      return {
+        templates,
+        department: options.department || 'All Departments',
+        role: options.role || 'All Roles',
+        templateId: options.templateId || 'All Templates',
+        period: periodKey,
+        month: format(new Date(year, month - 1, 1), 'MMMM'),
+        year: format(new Date(year, month - 1, 1), 'yyyy'),
+      };
+    } catch (error) {
+      logger.error('Error getting KPI item statistics:', error);
       throw error;
     }
   }
@@ -0,0 +1,58 @@
+import { model, Schema } from 'mongoose';
+import z from 'zod';
+
+/**
+ * Comment on a KPI entry, or on one of its values when `item` is set.
+ * A comment without `parentId` starts a thread and replies point to it.
+ * Threads started as clarification requests keep the entry flagged as
+ * awaiting clarification until they are resolved.
+ */
+const zKpiEntryComment = z.object({
+  id: z.string().min(1),
+  entryId: z.string().min(1),
+  item: z.string().min(1).optional(), // Value name, the whole entry when missing
+  parentId: z.string().min(1).optional(), // Thread the reply belongs to
+  body: z.string().min(1).max(5000),
+  authorId: z.string().min(1),
+  authorRole: z.string().optional(), // Member role of the author at the time
+  isClarificationRequest: z.boolean(),
+  resolved: z.boolean(),
+  resolvedBy: z.string().optional(),
+  resolvedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const zKpiEntryCommentCreate = zKpiEntryComment
+  .pick({ body: true, item: true, parentId: true })
+  .extend({
+    clarification: z.boolean().optional(), // Start a clarification request thread
+  });
+
+type KpiEntryComment = z.infer<typeof zKpiEntryComment>;
+export type KpiEntryCommentCreate = z.infer<typeof zKpiEntryCommentCreate>;
+
+const kpiEntryCommentSchema = new Schema<KpiEntryComment>(
+  {
+    entryId: { type: String, required: true },
+    item: { type: String, required: false },
+    parentId: { type: String, required: false },
+    body: { type: String, required: true },
+    authorId: { type: String, required: true },
+    authorRole: { type: String, required: false },
+    isClarificationRequest: { type: Boolean, default: false },
+    resolved: { type: Boolean, default: false },
+    resolvedBy: { type: String, required: false },
+    resolvedAt: { type: Date, required: false },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+kpiEntryCommentSchema.index({ entryId: 1, createdAt: 1 });
+
+export const KpiEntryCommentModel = model<KpiEntryComment>(
+  'tbl_kpi_entry_comments',
+  kpiEntryCommentSchema
+);
@@ -2,7 +2,11 @@ import { NextFunction, Request, Response } from 'express';
 import { KpiTemplateService } from './kpi_template.services';
 import { KpiAuditLogService } from '../kpi_audt_logs/kpi_audit_logs.services';
 import { User } from '@/lib/api-client';
+import APIError from '@/lib/errors/APIError';
+import { KpiEntryService } from '../kpi_entry/kpi_entry.services';
+import { KpiTemplateValidator } from './kpi_template.validator';
 import Respond from '@/lib/respond';
+import { format } from 'date-fns';
 
 export class KpiTemplateHandler {
   static async createKpiTemplate(
@@ -15,7 +19,10 @@ export class KpiTemplateHandler {
       const body = request.body;
 
       // Create a new kpi template
-      const kpiTemplate = await KpiTemplateService.createKpiTemplate(body);
+      const kpiTemplate = await KpiTemplateService.createKpiTemplate(
+        body,
+        user.id
+      );
       KpiAuditLogService.create({
         action: 'create',
         changes: [
@@ -27,6 +34,7 @@ export class KpiTemplateHandler {
         ],
         type: 'template',
         userId: user.id,
+        entityId: String(kpiTemplate._id),
       });
 
       return Respond(
@@ -58,13 +66,14 @@ export class KpiTemplateHandler {
 
   static async getKpiTemplates(req: Request, res: Response) {
     try {
-      const { page, limit, search, departmentSlug, role } = req.query;
+      const { page, limit, search, departmentSlug, role, status } = req.query;
       const kpiTemplates = await KpiTemplateService.getKpiTemplates({
         page: Number(page),
         limit: Number(limit),
         search: search as string,
         departmentSlug: departmentSlug as string,
         role: role as string,
+        status: status as string,
       });
       Respond(
         res,
@@ -78,9 +87,28 @@ export class KpiTemplateHandler {
 
   static async updateKpiTemplate(req: Request, res: Response) {
     try {
-      const { id } = req.params;
+      const user = req.user as User;
+      const id = req.params.id as string;
       const body = req.body;
-      const kpiTemplate = await KpiTemplateService.updateKpiTemplate(id, body);
+      const existingTemplate = await KpiTemplateService.getKpiTemplate(id);
+      const kpiTemplate = await KpiTemplateService.updateKpiTemplate(
+        id,
+        body,
+        user.id
+      );
+      KpiAuditLogService.create({
+        action: 'update',
+        changes: [
+          {
+            field: 'body',
+            oldValue: existingTemplate,
+            newValue: body,
+          },
+        ],
+        type: 'template',
+        userId: user.id,
+        entityId: id,
+      });
       Respond(
         res,
         { kpiTemplate, message: 'KPI template updated successfully' },
@@ -90,4 +118,386 @@ export class KpiTemplateHandler {
       throw error;
     }
   }
+
+  static async cloneKpiTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = req.user as User;
+      const id = req.params.id as string;
+      const body = req.body;
+      const kpiTemplate = await KpiTemplateService.cloneKpiTemplate(
+        id,
+        body,
+        user.id
+      );
+      KpiAuditLogService.create({
+        action: 'create',
+        changes: [
+          {
+            field: 'cloned_from',
+            oldValue: id,
+            newValue: body,
+          },
+        ],
+        type: 'template',
+        userId: user.id,
+        entityId: String(kpiTemplate._id),
+      });
+      Respond(
+        res,
+        { kpiTemplate, message: 'KPI template cloned successfully' },
+        201
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async archiveKpiTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = req.user as User;
+      const id = req.params.id as string;
+      const kpiTemplate = await KpiTemplateService.archiveKpiTemplate(
+        id,
+        user.id
+      );
+      KpiAuditLogService.create({
+        action: 'archive',
+        changes: [
+          {
+            field: 'status',
+            oldValue: 'active',
+            newValue: 'archived',
+          },
+        ],
+        type: 'template',
+        userId: user.id,
+        entityId: id,
+      });
+      Respond(
+        res,
+        { kpiTemplate, message: 'KPI template archived successfully' },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async restoreKpiTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = req.user as User;
+      const id = req.params.id as string;
+      const kpiTemplate = await KpiTemplateService.restoreKpiTemplate(id);
+      KpiAuditLogService.create({
+        action: 'restore',
+        changes: [
+          {
+            field: 'status',
+            oldValue: 'archived',
+            newValue: 'active',
+          },
+        ],
+        type: 'template',
+        userId: user.id,
+        entityId: id,
+      });
+      Respond(
+        res,
+        { kpiTemplate, message: 'KPI template restored successfully' },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async deleteKpiTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = req.user as User;
+      const id = req.params.id as string;
+      const kpiTemplate = await KpiTemplateService.deleteKpiTemplate(id);
+      KpiAuditLogService.create({
+        action: 'delete',
+        changes: [
+          {
+            field: 'body',
+            oldValue: kpiTemplate,
+            newValue: null,
+          },
+        ],
+        type: 'template',
+        userId: user.id,
+        entityId: id,
+      });
+      Respond(
+        res,
+        { kpiTemplate, message: 'KPI template deleted successfully' },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getKpiTemplateVersions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const id = req.params.id as string;
+      const versions = await KpiTemplateService.getKpiTemplateVersions(id);
+      Respond(
+        res,
+        { ...versions, message: 'KPI template versions fetched successfully' },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getKpiTemplateVersion(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const id = req.params.id as string;
+      const version = Number(req.params.version);
+      const kpiTemplateVersion = await KpiTemplateService.getKpiTemplateVersion(
+        id,
+        version
+      );
+      if (!kpiTemplateVersion) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Version Not Found',
+          MESSAGE: `KPI template ${id} has no version ${version}`,
+        });
+      }
+      Respond(
+        res,
+        {
+          kpiTemplateVersion,
+          message: 'KPI template version fetched successfully',
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async diffKpiTemplateVersions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const id = req.params.id as string;
+      const { from, to } = req.query;
+
+      // Default to comparing the latest version with the one before it
+      const { currentVersion } =
+        await KpiTemplateService.getKpiTemplateVersions(id);
+      const toVersion = to ? Number(to) : currentVersion;
+      const fromVersion = from ? Number(from) : Math.max(toVersion - 1, 1);
+
+      const diff = await KpiTemplateService.diffKpiTemplateVersions(
+        id,
+        fromVersion,
+        toVersion
+      );
+      Respond(
+        res,
+        { diff, message: 'KPI template versions compared successfully' },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Dry-run scoring of value sets against a saved template version
+   */
+  static async simulateKpiTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const id = req.params.id as string;
+      const { version, valueSets } = req.body;
+
+      const template = await KpiTemplateService.getScoringTemplate(id, version);
+      if (!template || (version && template.version !== version)) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: version
+            ? `KPI template ${id} has no version ${version}`
+            : `KPI template not found: ${id}`,
+        });
+      }
+
+      const results = KpiEntryService.simulateScores(
+        valueSets,
+        template.template,
+        template.sections
+      );
+      Respond(
+        res,
+        {
+          templateId: id,
+          version: template.version || 1,
+          results,
+          message: 'KPI template simulated successfully',
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Dry-run scoring of value sets against an unsaved template
+   */
+  static async simulateKpiTemplateDraft(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { template, valueSets } = req.body;
+
+      KpiTemplateValidator.assertValid(template.template, template.sections);
+
+      const results = KpiEntryService.simulateScores(
+        valueSets,
+        template.template,
+        template.sections
+      );
+      Respond(
+        res,
+        { results, message: 'KPI template simulated successfully' },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download templates as a JSON bundle or a flat CSV
+   */
+  static async exportKpiTemplates(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { ids, format: exportFormat } = req.query;
+      const templateIds = ids
+        ? String(ids)
+            .split(',')
+            .map((id) => id.trim())
+            .filter(Boolean)
+        : [];
+
+      const bundle = await KpiTemplateService.exportKpiTemplates(templateIds);
+      const fileName = `kpi-templates-${format(new Date(), 'yyyyMMdd-HHmmss')}`;
+
+      if (exportFormat === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${fileName}.csv"`
+        );
+        res
+          .status(200)
+          .send(KpiTemplateService.templatesToCsv(bundle.templates));
+        return;
+      }
+
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${fileName}.json"`
+      );
+      res.status(200).json(bundle);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Import templates from a JSON bundle or CSV
+   */
+  static async importKpiTemplates(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = req.user as User;
+      const { format, bundle, csv, mode, dryRun } = req.body;
+
+      let templates: unknown[];
+      if (format === 'csv') {
+        if (!csv) {
+          throw new APIError({
+            STATUS: 400,
+            TITLE: 'Missing CSV',
+            MESSAGE: 'csv content is required for csv imports',
+          });
+        }
+        templates = KpiTemplateService.csvToTemplates(csv);
+      } else {
+        if (!bundle) {
+          throw new APIError({
+            STATUS: 400,
+            TITLE: 'Missing Bundle',
+            MESSAGE: 'bundle is required for json imports',
+          });
+        }
+        templates = bundle.templates;
+      }
+
+      const result = await KpiTemplateService.importKpiTemplates(
+        templates,
+        { mode: mode || 'create', dryRun: dryRun || false },
+        user.id
+      );
+      Respond(
+        res,
+        {
+          ...result,
+          message: dryRun
+            ? 'KPI template import validated successfully'
+            : 'KPI templates imported successfully',
+        },
+        200
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
 }
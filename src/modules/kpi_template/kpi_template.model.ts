@@ -1,5 +1,91 @@
 import { model, Schema } from 'mongoose';
 import z from 'zod';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/zoned-time';
+
+export const zEffectiveFrom = z.object({
+  month: z.number().min(1).max(12), // 1-12
+  year: z.number().min(2020),
+});
+
+/**
+ * How a numeric item's value is turned into a score:
+ * - rules: ranges or exact values in scoringRules (default, percentage items
+ *   default to higher_is_better)
+ * - higher_is_better: { value, score } thresholds, the highest threshold at
+ *   or below the value applies
+ * - lower_is_better: { value, score } thresholds, the lowest threshold at or
+ *   above the value applies
+ * - target: full marks within tolerance of the target, decreasing linearly
+ *   to 0 over falloff beyond the band
+ * - linear: marks interpolated between min (0 marks) and max (full marks)
+ */
+export const SCORING_MODES = [
+  'rules',
+  'higher_is_better',
+  'lower_is_better',
+  'target',
+  'linear',
+] as const;
+
+export const zScoringConfig = z.object({
+  target: z.number().optional(), // target mode
+  tolerance: z.number().min(0).optional(), // target mode, defaults to 0
+  falloff: z.number().min(0).optional(), // target mode, 0 means no partial marks
+  min: z.number().optional(), // linear mode, value scoring 0
+  max: z.number().optional(), // linear mode, value scoring maxMarks
+});
+
+// Named group of template items, e.g. "Court work" or "Revenue collection"
+export const zTemplateSection = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1).optional(),
+  maxMarks: z.number().min(0).optional(), // Caps the section subtotal
+});
+
+export const zTemplateItem = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1).optional(),
+  maxMarks: z.number(),
+  kpiType: z.enum([
+    'quantitative',
+    'percentage',
+    'binary',
+    'qualitative',
+    'score',
+    'formula',
+  ]),
+  kpiUnit: z.string().optional(),
+  section: z.string().min(1).optional(), // Name of one of the template sections
+  isDynamic: z.boolean().default(false),
+  weight: z.number().min(0).optional(), // Share of the normalized total (weights sum to 100)
+  formula: z.string().min(1).optional(), // Expression over other items, e.g. "{Cases disposed} / {Cases pending} * 100"
+  scoringMode: z.enum(SCORING_MODES).optional(),
+  scoringConfig: zScoringConfig.optional(),
+  scoringRules: z.union([
+    z.array(
+      z.object({
+        min: z.number().optional(),
+        max: z.number().optional(),
+        score: z.number(),
+      })
+    ), // Ranges
+    z.array(z.object({ value: z.number(), score: z.number() })), // Exact values
+    z.array(z.object({ value: z.string(), score: z.number() })), // Binary or qualitative
+  ]),
+});
+
+/**
+ * Entries of a month can be edited from the start of the month until the
+ * end of `graceDays` days into the following month, in `timezone`.
+ * graceDays 7 keeps March entries open until the end of 7 April.
+ */
+export const zSubmissionWindow = z.object({
+  graceDays: z.number().int().min(0).max(28).default(0),
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, { message: 'Unknown time zone' })
+    .default(DEFAULT_TIME_ZONE),
+});
 
 const zKpiTemplate = z.object({
   id: z.string().min(1),
@@ -8,45 +94,82 @@ const zKpiTemplate = z.object({
   departmentSlug: z.string().min(1),
   role: z.string().min(1),
   frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly', 'yearly']),
-  template: z.array(
-    z.object({
-      name: z.string().min(1),
-      description: z.string().min(1).optional(),
-      maxMarks: z.number(),
-      kpiType: z.enum([
-        'quantitative',
-        'percentage',
-        'binary',
-        'qualitative',
-        'score',
-      ]),
-      kpiUnit: z.string().optional(),
-      isDynamic: z.boolean().default(false),
-      scoringRules: z.union([
-        z.array(
-          z.object({
-            min: z.number().optional(),
-            max: z.number().optional(),
-            score: z.number(),
-          })
-        ), // Ranges
-        z.array(z.object({ value: z.number(), score: z.number() })), // Exact values
-        z.array(z.object({ value: z.string(), score: z.number() })), // Binary or qualitative
-      ]),
-    })
-  ),
+  template: z.array(zTemplateItem),
+  sections: z.array(zTemplateSection).optional(),
+  submissionWindow: zSubmissionWindow.optional(), // Defaults to the entry month only
+  appealWindowDays: z.number().int().min(0).max(60).optional(), // Days officers can appeal generated entries, defaults to 7
+  version: z.number().min(1), // Latest version of the template items
+  status: z.enum(['active', 'archived']).default('active'), // Archived templates are kept for history only
+  archivedAt: z.date().optional(),
+  archivedBy: z.string().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
-export const zKpiTemplateCreate = zKpiTemplate.omit({
-  id: true,
-  createdAt: true,
-  updatedAt: true,
+export const zKpiTemplateCreate = zKpiTemplate
+  .omit({
+    id: true,
+    version: true,
+    status: true,
+    archivedAt: true,
+    archivedBy: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    effectiveFrom: zEffectiveFrom.optional(), // Defaults to the current month
+  });
+
+export const zKpiTemplateUpdate = zKpiTemplateCreate.partial();
+
+export const zKpiTemplateClone = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1).optional(),
+  departmentSlug: z.string().min(1).optional(), // Defaults to the source template's
+  role: z.string().min(1).optional(), // Defaults to the source template's
+});
+
+const zSimulationValue = z.object({
+  name: z.string().min(1),
+  value: z.union([z.number(), z.string(), z.boolean()]),
+  score: z.number().optional(), // Only used for bypassed values
+  comments: z.string().optional(),
+  isByPassed: z.boolean().optional(),
+});
+
+export const zKpiTemplateSimulate = z.object({
+  version: z.number().min(1).optional(), // Defaults to the current version
+  valueSets: z.array(z.array(zSimulationValue)).min(1),
+});
+
+export const zKpiTemplateDraftSimulate = z.object({
+  template: zKpiTemplateCreate,
+  valueSets: z.array(z.array(zSimulationValue)).min(1),
+});
+
+export const zKpiTemplateImport = z.object({
+  format: z.enum(['json', 'csv']).optional(), // Defaults to json
+  bundle: z
+    .object({
+      format: z.string().optional(),
+      templates: z.array(z.unknown()), // Validated template by template
+    })
+    .optional(),
+  csv: z.string().optional(),
+  mode: z.enum(['create', 'upsert']).optional(), // Defaults to create
+  dryRun: z.boolean().optional(),
 });
 
 export type KpiTemplate = z.infer<typeof zKpiTemplate>;
 export type KpiTemplateCreate = z.infer<typeof zKpiTemplateCreate>;
+export type KpiTemplateUpdate = z.infer<typeof zKpiTemplateUpdate>;
+export type KpiTemplateClone = z.infer<typeof zKpiTemplateClone>;
+export type TemplateItem = z.infer<typeof zTemplateItem>;
+export type TemplateSection = z.infer<typeof zTemplateSection>;
+export type SubmissionWindow = z.infer<typeof zSubmissionWindow>;
+export type ScoringMode = (typeof SCORING_MODES)[number];
+export type ScoringConfig = z.infer<typeof zScoringConfig>;
+export type EffectiveFrom = z.infer<typeof zEffectiveFrom>;
 
 // Define sub-schema for scoring rules
 const scoringRuleSchema = new Schema(
@@ -59,24 +182,66 @@ const scoringRuleSchema = new Schema(
   { _id: false }
 );
 
+// Define sub-schema for template sections
+export const templateSectionSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    description: { type: String, required: false },
+    maxMarks: { type: Number, required: false, min: 0 },
+  },
+  { _id: false }
+);
+
+// Define sub-schema for scoring mode settings
+const scoringConfigSchema = new Schema(
+  {
+    target: { type: Number, required: false },
+    tolerance: { type: Number, required: false, min: 0 },
+    falloff: { type: Number, required: false, min: 0 },
+    min: { type: Number, required: false },
+    max: { type: Number, required: false },
+  },
+  { _id: false }
+);
+
 // Define sub-schema for template items
-const templateItemSchema = new Schema(
+export const templateItemSchema = new Schema(
   {
     name: { type: String, required: true },
     description: { type: String, required: false },
     maxMarks: { type: Number, required: true },
     kpiType: {
       type: String,
-      enum: ['quantitative', 'percentage', 'binary', 'qualitative', 'score'],
+      enum: [
+        'quantitative',
+        'percentage',
+        'binary',
+        'qualitative',
+        'score',
+        'formula',
+      ],
       required: true,
     },
     kpiUnit: { type: String, required: false },
+    section: { type: String, required: false },
     isDynamic: { type: Boolean, default: false },
+    weight: { type: Number, required: false, min: 0 },
+    formula: { type: String, required: false },
+    scoringMode: { type: String, enum: SCORING_MODES, required: false },
+    scoringConfig: { type: scoringConfigSchema, required: false },
     scoringRules: { type: [scoringRuleSchema], required: true },
   },
   { _id: false }
 );
 
+const submissionWindowSchema = new Schema(
+  {
+    graceDays: { type: Number, default: 0, min: 0, max: 28 },
+    timezone: { type: String, default: DEFAULT_TIME_ZONE },
+  },
+  { _id: false }
+);
+
 const kpiTemplateSchema = new Schema<KpiTemplate>(
   {
     name: { type: String, required: true, unique: true },
@@ -85,6 +250,18 @@ const kpiTemplateSchema = new Schema<KpiTemplate>(
     role: { type: String, required: true },
     frequency: { type: String, required: true },
     template: { type: [templateItemSchema], required: true },
+    sections: { type: [templateSectionSchema], default: [] },
+    submissionWindow: { type: submissionWindowSchema, required: false },
+    appealWindowDays: { type: Number, default: 7, min: 0, max: 60 },
+    version: { type: Number, required: true, default: 1 },
+    status: {
+      type: String,
+      enum: ['active', 'archived'],
+      default: 'active',
+      required: true,
+    },
+    archivedAt: { type: Date, required: false },
+    archivedBy: { type: String, required: false },
   },
   {
     timestamps: true,
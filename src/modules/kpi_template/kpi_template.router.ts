@@ -1,7 +1,15 @@
 import { createRouter } from '@/configs/server.config';
 import { KpiTemplateHandler } from './kpi_template.handler';
 import { validateRequest } from '@/middlewares/zod-validate-request';
-import { zKpiTemplateCreate } from './kpi_template.model';
+import requireAdmin from '@/middlewares/requireAdmin';
+import {
+  zKpiTemplateClone,
+  zKpiTemplateCreate,
+  zKpiTemplateDraftSimulate,
+  zKpiTemplateImport,
+  zKpiTemplateSimulate,
+  zKpiTemplateUpdate,
+} from './kpi_template.model';
 
 const router = createRouter();
 
@@ -11,7 +19,56 @@ router.post(
   KpiTemplateHandler.createKpiTemplate
 );
 router.get('/', KpiTemplateHandler.getKpiTemplates);
+
+// Import/export, registered before /:id
+router.get('/export', KpiTemplateHandler.exportKpiTemplates);
+router.post(
+  '/import',
+  validateRequest({ body: zKpiTemplateImport }),
+  KpiTemplateHandler.importKpiTemplates
+);
+
+router.post(
+  '/simulate',
+  validateRequest({ body: zKpiTemplateDraftSimulate }),
+  KpiTemplateHandler.simulateKpiTemplateDraft
+);
 router.get('/:id', KpiTemplateHandler.getKpiTemplate);
-router.put('/:id', KpiTemplateHandler.updateKpiTemplate);
+router.put(
+  '/:id',
+  validateRequest({ body: zKpiTemplateUpdate }),
+  KpiTemplateHandler.updateKpiTemplate
+);
+router.delete('/:id', requireAdmin, KpiTemplateHandler.deleteKpiTemplate);
+
+// Template lifecycle (admin only)
+router.post(
+  '/:id/clone',
+  requireAdmin,
+  validateRequest({ body: zKpiTemplateClone }),
+  KpiTemplateHandler.cloneKpiTemplate
+);
+router.post(
+  '/:id/archive',
+  requireAdmin,
+  KpiTemplateHandler.archiveKpiTemplate
+);
+router.post(
+  '/:id/restore',
+  requireAdmin,
+  KpiTemplateHandler.restoreKpiTemplate
+);
+
+// Template versions
+router.get('/:id/versions', KpiTemplateHandler.getKpiTemplateVersions);
+router.get('/:id/versions/diff', KpiTemplateHandler.diffKpiTemplateVersions);
+router.get('/:id/versions/:version', KpiTemplateHandler.getKpiTemplateVersion);
+
+// Scoring dry-run, nothing is saved
+router.post(
+  '/:id/simulate',
+  validateRequest({ body: zKpiTemplateSimulate }),
+  KpiTemplateHandler.simulateKpiTemplate
+);
 
 export default router;
@@ -1,10 +1,103 @@
 import logger from '@/configs/logger';
-import { KpiTemplateCreate, KpiTemplateModel } from './kpi_template.model';
+import APIError from '@/lib/errors/APIError';
+import { KpiEntryModel } from '../kpi_entry/kpi_entry.model';
+import {
+  EffectiveFrom,
+  KpiTemplate,
+  KpiTemplateClone,
+  KpiTemplateCreate,
+  KpiTemplateModel,
+  zKpiTemplateCreate,
+  KpiTemplateUpdate,
+  TemplateItem,
+  TemplateSection,
+  zTemplateItem,
+  zTemplateSection,
+} from './kpi_template.model';
+import { KpiTemplateVersionModel } from './kpi_template_version.model';
+import { KpiTemplateValidator } from './kpi_template.validator';
+import { KpiAuditLogService } from '../kpi_audt_logs/kpi_audit_logs.services';
+import { parseCsv, toCsv } from '@/lib/csv';
+
+const TEMPLATE_BUNDLE_FORMAT = 'kpi-template-bundle';
+const TEMPLATE_BUNDLE_VERSION = 1;
+
+// One CSV row per template item and scoring rule
+const TEMPLATE_CSV_COLUMNS = [
+  'templateName',
+  'templateDescription',
+  'departmentSlug',
+  'role',
+  'frequency',
+  'graceDays',
+  'timezone',
+  'appealWindowDays',
+  'itemName',
+  'itemDescription',
+  'maxMarks',
+  'kpiType',
+  'kpiUnit',
+  'itemSection',
+  'sectionMaxMarks',
+  'isDynamic',
+  'weight',
+  'formula',
+  'scoringMode',
+  'target',
+  'tolerance',
+  'falloff',
+  'linearMin',
+  'linearMax',
+  'ruleMin',
+  'ruleMax',
+  'ruleValue',
+  'ruleScore',
+];
+
+// Item types whose exact-value rules hold numbers
+const NUMERIC_RULE_KPI_TYPES = ['quantitative', 'percentage', 'formula'];
+
+type PortableTemplate = Omit<KpiTemplateCreate, 'effectiveFrom'>;
+
+// Template definitions rebuilt from CSV rows, validated by the import
+interface CsvTemplateItem {
+  [field: string]: unknown;
+  name: string;
+  kpiType: string;
+  section?: string;
+  scoringRules: Record<string, unknown>[];
+}
+
+interface CsvTemplate {
+  [field: string]: unknown;
+  template: CsvTemplateItem[];
+  sections: { name: string; maxMarks?: number }[];
+}
 
 export class KpiTemplateService {
-  static async createKpiTemplate(kpiTemplate: KpiTemplateCreate) {
+  static async createKpiTemplate(
+    kpiTemplate: KpiTemplateCreate,
+    createdBy: string = 'system'
+  ) {
     try {
-      const newKpiTemplate = await KpiTemplateModel.create(kpiTemplate);
+      const { effectiveFrom, ...templateData } = kpiTemplate;
+      KpiTemplateValidator.assertValid(
+        templateData.template,
+        templateData.sections
+      );
+
+      const newKpiTemplate = await KpiTemplateModel.create({
+        ...templateData,
+        version: 1,
+      });
+
+      // Every template starts with an immutable first version
+      await this.createKpiTemplateVersion(
+        newKpiTemplate.toObject(),
+        effectiveFrom || this.getCurrentEffectiveFrom(),
+        createdBy
+      );
+
       return newKpiTemplate.toObject();
     } catch (error) {
       logger.error(error);
@@ -28,12 +121,14 @@ export class KpiTemplateService {
     search = '',
     departmentSlug = '',
     role = '',
+    status = '',
   }: {
     page?: number;
     limit?: number;
     search?: string;
     departmentSlug?: string;
     role?: string;
+    status?: string;
   }) {
     try {
       // Build query with proper filtering logic
@@ -49,6 +144,12 @@ export class KpiTemplateService {
       if (role) {
         query.role = role;
       }
+      if (status === 'active') {
+        // Templates created before archiving existed have no status
+        query.status = { $ne: 'archived' };
+      } else if (status) {
+        query.status = status;
+      }
 
       const [kpiTemplates, total] = await Promise.all([
         KpiTemplateModel.find(query)
@@ -73,32 +174,910 @@ export class KpiTemplateService {
     }
   }
 
+  /**
+   * Update a KPI template
+   * Changes to the template items or sections create a new immutable
+   * version, other fields (name, description, ...) are updated in place.
+   * The frequency cannot change once the template has entries
+   */
   static async updateKpiTemplate(
     id: string,
-    kpiTemplate: Partial<KpiTemplateCreate>
+    kpiTemplate: KpiTemplateUpdate,
+    updatedBy: string = 'system'
   ) {
     try {
-      const updatedKpiTemplate = await KpiTemplateModel.findByIdAndUpdate(
-        id,
-        kpiTemplate,
+      const existingTemplate = await KpiTemplateModel.findById(id).lean();
+      if (!existingTemplate) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${id}`,
+        });
+      }
+
+      const { effectiveFrom, ...templateData } = kpiTemplate;
+
+      // Entries keep the periods and submission windows of the frequency
+      // they were generated under, it can only change while there are none
+      if (
+        templateData.frequency !== undefined &&
+        templateData.frequency !== existingTemplate.frequency &&
+        (await KpiEntryModel.exists({ kpiTemplateId: id }))
+      ) {
+        throw new APIError({
+          STATUS: 409,
+          TITLE: 'KPI Template In Use',
+          MESSAGE: `KPI template ${id} is referenced by KPI entries and its frequency cannot be changed. Create a new template instead.`,
+        });
+      }
+
+      const itemsChanged =
+        (templateData.template !== undefined &&
+          this.normalizeItems(templateData.template) !==
+            this.normalizeItems(existingTemplate.template)) ||
+        (templateData.sections !== undefined &&
+          this.normalizeSections(templateData.sections) !==
+            this.normalizeSections(existingTemplate.sections || []));
+
+      if (
+        templateData.template !== undefined ||
+        templateData.sections !== undefined
+      ) {
+        KpiTemplateValidator.assertValid(
+          templateData.template ?? existingTemplate.template,
+          templateData.sections ?? existingTemplate.sections
+        );
+      }
+
+      if (!itemsChanged) {
+        const updatedKpiTemplate = await KpiTemplateModel.findByIdAndUpdate(
+          id,
+          templateData,
+          {
+            new: true,
+          }
+        );
+        return updatedKpiTemplate?.toObject();
+      }
+
+      // Make sure the items being replaced are preserved as a version
+      await this.ensureInitialVersion(existingTemplate);
+
+      // Bump from the version read, a concurrent update makes this match nothing
+      const readVersion = existingTemplate.version;
+      const updatedKpiTemplate = await KpiTemplateModel.findOneAndUpdate(
+        { _id: id, version: readVersion ?? { $exists: false } },
+        readVersion
+          ? { ...templateData, $inc: { version: 1 } }
+          : { ...templateData, version: 2 },
         {
           new: true,
         }
       );
-      return updatedKpiTemplate?.toObject();
+      if (!updatedKpiTemplate) {
+        throw new APIError({
+          STATUS: 409,
+          TITLE: 'KPI Template Changed',
+          MESSAGE:
+            'The KPI template was updated by someone else, reload it and try again',
+        });
+      }
+
+      await this.createKpiTemplateVersion(
+        updatedKpiTemplate.toObject(),
+        effectiveFrom || this.getCurrentEffectiveFrom(),
+        updatedBy
+      );
+
+      return updatedKpiTemplate.toObject();
     } catch (error) {
       logger.error(error);
       throw error;
     }
   }
 
+  /**
+   * Delete a KPI template and its versions
+   * Templates referenced by KPI entries cannot be deleted, archive them instead
+   */
   static async deleteKpiTemplate(id: string) {
     try {
+      const entriesCount = await KpiEntryModel.countDocuments({
+        kpiTemplateId: id,
+      });
+      if (entriesCount > 0) {
+        throw new APIError({
+          STATUS: 409,
+          TITLE: 'KPI Template In Use',
+          MESSAGE: `KPI template ${id} is referenced by ${entriesCount} KPI entries and cannot be deleted. Archive it instead.`,
+          META: { entriesCount },
+        });
+      }
+
       const deletedKpiTemplate = await KpiTemplateModel.findByIdAndDelete(id);
-      return deletedKpiTemplate;
+      if (!deletedKpiTemplate) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${id}`,
+        });
+      }
+
+      await KpiTemplateVersionModel.deleteMany({ templateId: id });
+      return deletedKpiTemplate.toObject();
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Clone a KPI template under a new name, optionally for another
+   * department/role. The clone starts at version 1 with the current items.
+   */
+  static async cloneKpiTemplate(
+    id: string,
+    clone: KpiTemplateClone,
+    clonedBy: string
+  ) {
+    try {
+      const sourceTemplate = await KpiTemplateModel.findById(id).lean();
+      if (!sourceTemplate) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${id}`,
+        });
+      }
+
+      const existingTemplate = await KpiTemplateModel.exists({
+        name: clone.name,
+      });
+      if (existingTemplate) {
+        throw new APIError({
+          STATUS: 409,
+          TITLE: 'KPI Template Already Exists',
+          MESSAGE: `A KPI template named "${clone.name}" already exists`,
+        });
+      }
+
+      return await this.createKpiTemplate(
+        {
+          name: clone.name,
+          description: clone.description ?? sourceTemplate.description,
+          departmentSlug: clone.departmentSlug || sourceTemplate.departmentSlug,
+          role: clone.role || sourceTemplate.role,
+          frequency: sourceTemplate.frequency,
+          template: sourceTemplate.template,
+          sections: sourceTemplate.sections,
+        },
+        clonedBy
+      );
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a KPI template - archived templates no longer get monthly
+   * entries but stay readable for history
+   */
+  static async archiveKpiTemplate(id: string, archivedBy: string) {
+    try {
+      const archivedKpiTemplate = await KpiTemplateModel.findByIdAndUpdate(
+        id,
+        { status: 'archived', archivedAt: new Date(), archivedBy },
+        { new: true }
+      );
+      if (!archivedKpiTemplate) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${id}`,
+        });
+      }
+      return archivedKpiTemplate.toObject();
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore an archived KPI template
+   */
+  static async restoreKpiTemplate(id: string) {
+    try {
+      const restoredKpiTemplate = await KpiTemplateModel.findByIdAndUpdate(
+        id,
+        {
+          status: 'active',
+          $unset: { archivedAt: 1, archivedBy: 1 },
+        },
+        { new: true }
+      );
+      if (!restoredKpiTemplate) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${id}`,
+        });
+      }
+      return restoredKpiTemplate.toObject();
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all versions of a KPI template, newest first
+   */
+  static async getKpiTemplateVersions(templateId: string) {
+    try {
+      const template = await KpiTemplateModel.findById(templateId).lean();
+      if (!template) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Not Found',
+          MESSAGE: `KPI template not found: ${templateId}`,
+        });
+      }
+
+      await this.ensureInitialVersion(template);
+
+      const versions = await KpiTemplateVersionModel.find({ templateId })
+        .sort({ version: -1 })
+        .lean();
+
+      return {
+        templateId,
+        currentVersion: template.version || 1,
+        docs: versions,
+      };
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a specific version of a KPI template
+   */
+  static async getKpiTemplateVersion(templateId: string, version: number) {
+    try {
+      const kpiTemplateVersion = await KpiTemplateVersionModel.findOne({
+        templateId,
+        version,
+      }).lean();
+      return kpiTemplateVersion;
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the template items an entry has to be scored against.
+   * Falls back to the current template items for entries created before
+   * versioning or when the pinned version is missing
+   */
+  static async getScoringTemplate(templateId: string, version?: number) {
+    if (version) {
+      const kpiTemplateVersion = await this.getKpiTemplateVersion(
+        templateId,
+        version
+      );
+      if (kpiTemplateVersion) return kpiTemplateVersion;
+    }
+
+    return await this.getKpiTemplate(templateId);
+  }
+
+  /**
+   * Resolve the version effective for a month/year - the latest version whose
+   * effectiveFrom is not after the requested month. If the month precedes all
+   * versions the first version is used.
+   */
+  static async resolveKpiTemplateVersion(
+    templateId: string,
+    month: number,
+    year: number
+  ) {
+    try {
+      const versions = await KpiTemplateVersionModel.find({ templateId })
+        .sort({ version: -1 })
+        .lean();
+
+      if (versions.length === 0) return null;
+
+      const requested = year * 12 + month;
+      const effectiveVersion = versions.find(
+        (version) =>
+          version.effectiveFrom.year * 12 + version.effectiveFrom.month <=
+          requested
+      );
+
+      return effectiveVersion || versions[versions.length - 1];
     } catch (error) {
       logger.error(error);
       throw error;
     }
   }
+
+  /**
+   * Diff the items of two versions of a KPI template
+   */
+  static async diffKpiTemplateVersions(
+    templateId: string,
+    fromVersion: number,
+    toVersion: number
+  ) {
+    try {
+      const [from, to] = await Promise.all([
+        this.getKpiTemplateVersion(templateId, fromVersion),
+        this.getKpiTemplateVersion(templateId, toVersion),
+      ]);
+
+      if (!from || !to) {
+        throw new APIError({
+          STATUS: 404,
+          TITLE: 'KPI Template Version Not Found',
+          MESSAGE: `KPI template ${templateId} has no version ${!from ? fromVersion : toVersion}`,
+        });
+      }
+
+      const fromItems = new Map(from.template.map((item) => [item.name, item]));
+      const toItems = new Map(to.template.map((item) => [item.name, item]));
+
+      const added = to.template.filter((item) => !fromItems.has(item.name));
+      const removed = from.template.filter((item) => !toItems.has(item.name));
+      const modified: {
+        name: string;
+        changes: { field: string; oldValue: unknown; newValue: unknown }[];
+      }[] = [];
+
+      for (const item of to.template) {
+        const previousItem = fromItems.get(item.name);
+        if (!previousItem) continue;
+
+        const changes = this.diffFields(
+          previousItem as Record<string, unknown>,
+          item as Record<string, unknown>
+        );
+        if (changes.length > 0) {
+          modified.push({ name: item.name, changes });
+        }
+      }
+
+      const fields: (keyof typeof from)[] = [
+        'name',
+        'description',
+        'departmentSlug',
+        'role',
+        'frequency',
+        'sections',
+      ];
+      const pick = (version: typeof from) =>
+        Object.fromEntries(fields.map((field) => [field, version[field]]));
+
+      return {
+        templateId,
+        from: {
+          version: from.version,
+          effectiveFrom: from.effectiveFrom,
+          changedBy: from.changedBy,
+          createdAt: from.createdAt,
+        },
+        to: {
+          version: to.version,
+          effectiveFrom: to.effectiveFrom,
+          changedBy: to.changedBy,
+          createdAt: to.createdAt,
+        },
+        changes: this.diffFields(pick(from), pick(to)),
+        items: {
+          added,
+          removed,
+          modified,
+        },
+      };
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Export KPI templates as a portable bundle of template definitions.
+   * Without ids every template is exported.
+   */
+  static async exportKpiTemplates(ids: string[] = []) {
+    try {
+      const query = ids.length > 0 ? { _id: { $in: ids } } : {};
+      const templates = await KpiTemplateModel.find(query)
+        .sort({ name: 1 })
+        .lean();
+
+      return {
+        format: TEMPLATE_BUNDLE_FORMAT,
+        bundleVersion: TEMPLATE_BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        templates: templates.map((template): PortableTemplate => ({
+          name: template.name,
+          description: template.description,
+          departmentSlug: template.departmentSlug,
+          role: template.role,
+          frequency: template.frequency,
+          submissionWindow: template.submissionWindow,
+          appealWindowDays: template.appealWindowDays,
+          template: template.template.map((item) => {
+            // Drop empty optional fields so bundles stay diff friendly
+            const { scoringRules, ...fields } = item;
+            return {
+              ...(Object.fromEntries(
+                Object.entries(fields).filter(
+                  ([, value]) => value !== undefined && value !== null
+                )
+              ) as typeof fields),
+              scoringRules,
+            };
+          }),
+          sections: template.sections,
+        })),
+      };
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Flatten templates to CSV, one row per template item and scoring rule
+   */
+  static templatesToCsv(templates: PortableTemplate[]) {
+    const rows: Record<string, unknown>[] = [];
+
+    for (const template of templates) {
+      const templateFields = {
+        templateName: template.name,
+        templateDescription: template.description,
+        departmentSlug: template.departmentSlug,
+        role: template.role,
+        frequency: template.frequency,
+        graceDays: template.submissionWindow?.graceDays,
+        timezone: template.submissionWindow?.timezone,
+        appealWindowDays: template.appealWindowDays,
+      };
+
+      for (const item of template.template) {
+        const itemFields = {
+          ...templateFields,
+          itemName: item.name,
+          itemDescription: item.description,
+          maxMarks: item.maxMarks,
+          kpiType: item.kpiType,
+          kpiUnit: item.kpiUnit,
+          itemSection: item.section,
+          sectionMaxMarks: template.sections?.find(
+            (section) => section.name === item.section
+          )?.maxMarks,
+          isDynamic: item.isDynamic,
+          weight: item.weight,
+          formula: item.formula,
+          scoringMode: item.scoringMode,
+          target: item.scoringConfig?.target,
+          tolerance: item.scoringConfig?.tolerance,
+          falloff: item.scoringConfig?.falloff,
+          linearMin: item.scoringConfig?.min,
+          linearMax: item.scoringConfig?.max,
+        };
+        const rules = item.scoringRules as {
+          min?: number;
+          max?: number;
+          value?: number | string;
+          score: number;
+        }[];
+
+        if (rules.length === 0) {
+          rows.push(itemFields);
+          continue;
+        }
+
+        rules.forEach((rule) =>
+          rows.push({
+            ...itemFields,
+            ruleMin: rule.min,
+            ruleMax: rule.max,
+            ruleValue: rule.value,
+            ruleScore: rule.score,
+          })
+        );
+      }
+    }
+
+    return toCsv(rows, TEMPLATE_CSV_COLUMNS);
+  }
+
+  /**
+   * Rebuild template definitions from CSV rows. Rows are grouped by template
+   * and item name in the order they appear.
+   */
+  static csvToTemplates(csv: string) {
+    const templates = new Map<string, CsvTemplate>();
+    const optional = (value: string) => (value === '' ? undefined : value);
+    const optionalNumber = (value: string) =>
+      value === '' ? undefined : Number(value);
+
+    for (const row of parseCsv(csv)) {
+      let template = templates.get(row.templateName);
+      if (!template) {
+        const submissionWindow = {
+          graceDays: optionalNumber(row.graceDays),
+          timezone: optional(row.timezone),
+        };
+        template = {
+          name: row.templateName,
+          description: optional(row.templateDescription),
+          departmentSlug: row.departmentSlug,
+          role: row.role,
+          frequency: row.frequency,
+          submissionWindow: Object.values(submissionWindow).some(
+            (value) => value !== undefined
+          )
+            ? submissionWindow
+            : undefined,
+          appealWindowDays: optionalNumber(row.appealWindowDays),
+          template: [],
+          sections: [],
+        };
+        templates.set(row.templateName, template);
+      }
+      if (!row.itemName) continue;
+
+      let item = template.template.find(
+        (templateItem) => templateItem.name === row.itemName
+      );
+      if (!item) {
+        const scoringConfig = {
+          target: optionalNumber(row.target),
+          tolerance: optionalNumber(row.tolerance),
+          falloff: optionalNumber(row.falloff),
+          min: optionalNumber(row.linearMin),
+          max: optionalNumber(row.linearMax),
+        };
+        item = {
+          name: row.itemName,
+          description: optional(row.itemDescription),
+          maxMarks: Number(row.maxMarks),
+          kpiType: row.kpiType,
+          kpiUnit: optional(row.kpiUnit),
+          section: optional(row.itemSection),
+          isDynamic: row.isDynamic === 'true',
+          weight: optionalNumber(row.weight),
+          formula: optional(row.formula),
+          scoringMode: optional(row.scoringMode),
+          scoringConfig: Object.values(scoringConfig).some(
+            (value) => value !== undefined
+          )
+            ? scoringConfig
+            : undefined,
+          scoringRules: [],
+        };
+        template.template.push(item);
+
+        const sectionName = item.section;
+        if (
+          sectionName &&
+          !template.sections.some((section) => section.name === sectionName)
+        ) {
+          template.sections.push({
+            name: sectionName,
+            maxMarks: optionalNumber(row.sectionMaxMarks),
+          });
+        }
+      }
+
+      if (row.ruleScore === '') continue;
+      const ruleValue = optional(row.ruleValue);
+      item.scoringRules.push({
+        min: optionalNumber(row.ruleMin),
+        max: optionalNumber(row.ruleMax),
+        value:
+          ruleValue !== undefined &&
+          NUMERIC_RULE_KPI_TYPES.includes(item.kpiType)
+            ? Number(ruleValue)
+            : ruleValue,
+        score: Number(row.ruleScore),
+      });
+    }
+
+    // Remove undefined keys so rules keep their range or exact-value shape
+    return JSON.parse(JSON.stringify([...templates.values()]));
+  }
+
+  /**
+   * Import template definitions. Every template is validated against
+   * zKpiTemplateCreate and the scoring rule checks; templates whose name
+   * already exists are reported as conflicts, or updated in upsert mode
+   * (creating a new version when the items change). With dryRun nothing is
+   * written and the report shows what would happen.
+   */
+  static async importKpiTemplates(
+    templates: unknown[],
+    options: { mode: 'create' | 'upsert'; dryRun: boolean },
+    importedBy: string
+  ) {
+    try {
+      const results: {
+        name: string;
+        action: 'create' | 'update' | 'conflict' | 'invalid';
+        templateId?: string;
+        errors?: unknown[];
+      }[] = [];
+      const seenNames = new Set<string>();
+
+      for (const [index, candidate] of templates.entries()) {
+        const name =
+          (candidate as { name?: string })?.name || `Template #${index + 1}`;
+
+        const parsed = zKpiTemplateCreate.safeParse(candidate);
+        if (!parsed.success) {
+          results.push({
+            name,
+            action: 'invalid',
+            errors: parsed.error.errors,
+          });
+          continue;
+        }
+
+        // Parsed output strips rule fields of the other shapes, validate the raw rules
+        const rawItems = (candidate as KpiTemplateCreate).template;
+        const issues = KpiTemplateValidator.validate(
+          rawItems,
+          parsed.data.sections
+        );
+        if (issues.length > 0) {
+          results.push({ name, action: 'invalid', errors: issues });
+          continue;
+        }
+
+        // Only fields of the create schema are saved, with the rule fields
+        // the validator checked
+        const template: KpiTemplateCreate = {
+          ...parsed.data,
+          template: parsed.data.template.map((item, itemIndex) => ({
+            ...item,
+            scoringRules: this.pickRuleFields(rawItems[itemIndex].scoringRules),
+          })),
+        };
+
+        if (seenNames.has(template.name)) {
+          results.push({
+            name,
+            action: 'conflict',
+            errors: [{ message: 'Template name is repeated in the import' }],
+          });
+          continue;
+        }
+        seenNames.add(template.name);
+
+        const existingTemplate = await KpiTemplateModel.findOne({
+          name: template.name,
+        }).lean();
+
+        if (existingTemplate && options.mode !== 'upsert') {
+          results.push({
+            name,
+            action: 'conflict',
+            templateId: String(existingTemplate._id),
+            errors: [
+              { message: 'A KPI template with this name already exists' },
+            ],
+          });
+          continue;
+        }
+
+        if (options.dryRun) {
+          results.push({
+            name,
+            action: existingTemplate ? 'update' : 'create',
+            templateId: existingTemplate
+              ? String(existingTemplate._id)
+              : undefined,
+          });
+          continue;
+        }
+
+        if (existingTemplate) {
+          const templateId = String(existingTemplate._id);
+          await this.updateKpiTemplate(templateId, template, importedBy);
+          KpiAuditLogService.create({
+            type: 'template',
+            userId: importedBy,
+            entityId: templateId,
+            action: 'update',
+            changes: [
+              {
+                field: 'import',
+                oldValue: existingTemplate,
+                newValue: template,
+              },
+            ],
+          });
+          results.push({ name, action: 'update', templateId });
+        } else {
+          const createdTemplate = await this.createKpiTemplate(
+            template,
+            importedBy
+          );
+          const templateId = String(createdTemplate._id);
+          KpiAuditLogService.create({
+            type: 'template',
+            userId: importedBy,
+            entityId: templateId,
+            action: 'create',
+            changes: [{ field: 'import', oldValue: null, newValue: template }],
+          });
+          results.push({ name, action: 'create', templateId });
+        }
+      }
+
+      const count = (action: string) =>
+        results.filter((result) => result.action === action).length;
+
+      return {
+        mode: options.mode,
+        dryRun: options.dryRun,
+        summary: {
+          total: results.length,
+          created: count('create'),
+          updated: count('update'),
+          conflicts: count('conflict'),
+          invalid: count('invalid'),
+        },
+        results,
+      };
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the range and exact-value fields of scoring rules
+   */
+  private static pickRuleFields(
+    rules: TemplateItem['scoringRules']
+  ): TemplateItem['scoringRules'] {
+    return (
+      rules as { min?: number; max?: number; value?: unknown; score: number }[]
+    ).map(({ min, max, value, score }) =>
+      Object.fromEntries(
+        Object.entries({ min, max, value, score }).filter(
+          ([, field]) => field !== undefined
+        )
+      )
+    ) as TemplateItem['scoringRules'];
+  }
+
+  /**
+   * Items in a comparable form, with schema defaults applied and keys
+   * sorted so stored and submitted items compare equal
+   */
+  private static normalizeItems(items: TemplateItem[]) {
+    return this.stableStringify(
+      items.map((item) => {
+        const parsed = zTemplateItem.safeParse(item);
+        // Parsing strips rule fields of the other shapes, keep the raw rules
+        return parsed.success
+          ? { ...parsed.data, scoringRules: item.scoringRules }
+          : item;
+      })
+    );
+  }
+
+  private static normalizeSections(sections: TemplateSection[]) {
+    return this.stableStringify(
+      sections.map((section) => {
+        const parsed = zTemplateSection.safeParse(section);
+        return parsed.success ? parsed.data : section;
+      })
+    );
+  }
+
+  private static stableStringify(value: unknown) {
+    const sortKeys = (_key: string, nested: unknown) => {
+      if (!nested || typeof nested !== 'object' || Array.isArray(nested)) {
+        return nested;
+      }
+      return Object.fromEntries(
+        Object.entries(nested).sort(([a], [b]) => a.localeCompare(b))
+      );
+    };
+    return JSON.stringify(value, sortKeys);
+  }
+
+  /**
+   * Compare two plain objects field by field
+   */
+  private static diffFields(
+    oldObject: Record<string, unknown>,
+    newObject: Record<string, unknown>
+  ) {
+    const fields = new Set([
+      ...Object.keys(oldObject),
+      ...Object.keys(newObject),
+    ]);
+    const changes: { field: string; oldValue: unknown; newValue: unknown }[] =
+      [];
+
+    fields.forEach((field) => {
+      if (
+        JSON.stringify(oldObject[field]) !== JSON.stringify(newObject[field])
+      ) {
+        changes.push({
+          field,
+          oldValue: oldObject[field] ?? null,
+          newValue: newObject[field] ?? null,
+        });
+      }
+    });
+
+    return changes;
+  }
+
+  private static async createKpiTemplateVersion(
+    template: KpiTemplate & { _id: unknown },
+    effectiveFrom: EffectiveFrom,
+    changedBy: string
+  ) {
+    return await KpiTemplateVersionModel.create({
+      templateId: String(template._id),
+      version: template.version || 1,
+      name: template.name,
+      description: template.description,
+      departmentSlug: template.departmentSlug,
+      role: template.role,
+      frequency: template.frequency,
+      template: template.template as TemplateItem[],
+      sections: template.sections || [],
+      effectiveFrom,
+      changedBy,
+    });
+  }
+
+  /**
+   * Templates created before versioning have no snapshot of their items yet,
+   * store the current items as the first version, effective from creation
+   */
+  private static async ensureInitialVersion(
+    template: KpiTemplate & { _id: unknown }
+  ) {
+    const templateId = String(template._id);
+    const version = template.version || 1;
+    const exists = await KpiTemplateVersionModel.exists({
+      templateId,
+      version,
+    });
+    if (exists) return;
+
+    const createdAt = template.createdAt
+      ? new Date(template.createdAt)
+      : new Date();
+    await this.createKpiTemplateVersion(
+      { ...template, version },
+      { month: createdAt.getMonth() + 1, year: createdAt.getFullYear() },
+      'system'
+    );
+  }
+
+  private static getCurrentEffectiveFrom(): EffectiveFrom {
+    const currentDate = new Date();
+    return {
+      month: currentDate.getMonth() + 1, // 1-12
+      year: currentDate.getFullYear(),
+    };
+  }
 }
@@ -0,0 +1,473 @@
+import APIError from '@/lib/errors/APIError';
+import { getFormulaReferences, sortFormulas } from '@/lib/formula';
+import {
+  ScoringMode,
+  TemplateItem,
+  TemplateSection,
+} from './kpi_template.model';
+
+interface TemplateIssue extends Record<string, unknown> {
+  item?: string;
+  field: string;
+  rule?: number; // Index of the offending scoring rule
+  message: string;
+}
+
+interface ScoringRule {
+  min?: number;
+  max?: number;
+  value?: number | string | boolean;
+  score: number;
+}
+
+// Weights are percentages of the normalized total
+const TOTAL_WEIGHT = 100;
+const WEIGHT_TOLERANCE = 0.01;
+
+// Item types with numeric values, formulas can only reference these
+const NUMERIC_KPI_TYPES = ['quantitative', 'percentage', 'score', 'formula'];
+
+export class KpiTemplateValidator {
+  /**
+   * Validate template items and throw a structured error listing every issue
+   */
+  static assertValid(items: TemplateItem[], sections: TemplateSection[] = []) {
+    const issues = this.validate(items, sections);
+    if (issues.length > 0) {
+      throw new APIError({
+        STATUS: 400,
+        TITLE: 'Invalid KPI Template',
+        MESSAGE: `KPI template has ${issues.length} validation issue(s)`,
+        ERRORS: issues,
+      });
+    }
+  }
+
+  /**
+   * Collect all validation issues of the template items
+   */
+  static validate(
+    items: TemplateItem[],
+    sections: TemplateSection[] = []
+  ): TemplateIssue[] {
+    return [
+      ...this.validateItemNames(items),
+      ...this.validateSections(items, sections),
+      ...items.flatMap((item) => this.validateScoringRules(item)),
+      ...this.validateWeights(items),
+      ...this.validateFormulas(items),
+    ];
+  }
+
+  /**
+   * Item names identify values in entries and must be unique
+   */
+  static validateItemNames(items: TemplateItem[]): TemplateIssue[] {
+    const seen = new Set<string>();
+    const issues: TemplateIssue[] = [];
+
+    for (const item of items) {
+      if (seen.has(item.name)) {
+        issues.push({
+          item: item.name,
+          field: 'name',
+          message: 'Item names must be unique within a template',
+        });
+      }
+      seen.add(item.name);
+    }
+
+    return issues;
+  }
+
+  /**
+   * Section names must be unique and items can only belong to a section
+   * defined on the template
+   */
+  static validateSections(
+    items: TemplateItem[],
+    sections: TemplateSection[]
+  ): TemplateIssue[] {
+    const issues: TemplateIssue[] = [];
+    const sectionNames = new Set<string>();
+
+    for (const section of sections) {
+      if (sectionNames.has(section.name)) {
+        issues.push({
+          field: 'sections',
+          message: `Section names must be unique, "${section.name}" is repeated`,
+        });
+      }
+      sectionNames.add(section.name);
+    }
+
+    for (const item of items) {
+      if (item.section && !sectionNames.has(item.section)) {
+        issues.push({
+          item: item.name,
+          field: 'section',
+          message: `Item belongs to unknown section "${item.section}"`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check that the scoring rules of an item can be applied unambiguously:
+   * - the scoring mode suits the kpiType and has the settings it needs
+   * - the rule shape matches the mode (ranges, numeric thresholds or exact
+   *   string values)
+   * - range and exact-value rules are not mixed
+   * - ranges have both bounds, do not overlap and leave no gaps
+   * - exact values and thresholds are not repeated
+   * - thresholds award more for better values
+   * - no rule awards more than maxMarks
+   */
+  static validateScoringRules(item: TemplateItem): TemplateIssue[] {
+    const rules = item.scoringRules as ScoringRule[];
+    const issues: TemplateIssue[] = [];
+    const issue = (message: string, rule?: number) =>
+      issues.push({ item: item.name, field: 'scoringRules', rule, message });
+    const modeIssue = (field: string, message: string) =>
+      issues.push({ item: item.name, field, message });
+
+    if (item.maxMarks < 0) {
+      modeIssue('maxMarks', 'maxMarks cannot be negative');
+    }
+
+    rules.forEach((rule, index) => {
+      if (rule.score > item.maxMarks) {
+        issue(
+          `Rule score ${rule.score} exceeds maxMarks ${item.maxMarks}`,
+          index
+        );
+      }
+    });
+
+    // Score items take the entered value as the score, rules are not used
+    if (item.kpiType === 'score') {
+      if (item.scoringMode && item.scoringMode !== 'rules') {
+        modeIssue('scoringMode', 'score items cannot use a scoring mode');
+      }
+      return issues;
+    }
+
+    const mode: ScoringMode =
+      item.scoringMode ??
+      (item.kpiType === 'percentage' ? 'higher_is_better' : 'rules');
+
+    if (mode !== 'rules' && !NUMERIC_KPI_TYPES.includes(item.kpiType)) {
+      modeIssue(
+        'scoringMode',
+        `${item.kpiType} items can only use the rules scoring mode`
+      );
+      return issues;
+    }
+
+    if (mode === 'target' || mode === 'linear') {
+      this.validateScoringConfig(item, mode, modeIssue);
+      if (rules.length > 0) {
+        issue(`Scoring rules are not used in ${mode} mode`);
+      }
+      return issues;
+    }
+
+    if (rules.length === 0) {
+      issue(`${item.kpiType} items need at least one scoring rule`);
+      return issues;
+    }
+
+    const isRange = (rule: ScoringRule) =>
+      rule.min !== undefined || rule.max !== undefined;
+    const rangeRules = rules.filter(isRange);
+    const valueRules = rules.filter((rule) => !isRange(rule));
+
+    if (rangeRules.length > 0 && valueRules.length > 0) {
+      issue('Range rules (min/max) and exact value rules cannot be mixed');
+      return issues;
+    }
+
+    if (mode === 'higher_is_better' || mode === 'lower_is_better') {
+      // Values are scored against "value >= threshold" or "value <= threshold"
+      if (rangeRules.length > 0) {
+        issue(`${mode} mode uses { value, score } threshold rules`);
+        return issues;
+      }
+      const issueCount = issues.length;
+      this.validateValueRules(rules, 'number', issue);
+      if (issues.length === issueCount) {
+        this.validateThresholds(rules, mode, issue);
+      }
+      return issues;
+    }
+
+    switch (item.kpiType) {
+      case 'percentage':
+      case 'quantitative':
+      case 'formula':
+        if (rangeRules.length > 0) {
+          this.validateRanges(rules, issue);
+        } else {
+          this.validateValueRules(rules, 'number', issue);
+        }
+        break;
+      case 'binary':
+      case 'qualitative':
+        if (rangeRules.length > 0) {
+          issue(`${item.kpiType} items use { value, score } exact value rules`);
+          return issues;
+        }
+        this.validateValueRules(rules, 'string', issue);
+        if (item.kpiType === 'binary') {
+          rules.forEach((rule, index) => {
+            if (!['true', 'false'].includes(String(rule.value))) {
+              issue('binary rule values must be "true" or "false"', index);
+            }
+          });
+        }
+        break;
+    }
+
+    return issues;
+  }
+
+  /**
+   * Target mode needs a target, linear mode needs two distinct bounds
+   */
+  private static validateScoringConfig(
+    item: TemplateItem,
+    mode: 'target' | 'linear',
+    issue: (field: string, message: string) => void
+  ) {
+    const config = item.scoringConfig || {};
+
+    if (mode === 'target' && config.target === undefined) {
+      issue('scoringConfig.target', 'target mode requires a target value');
+    }
+
+    if (mode === 'linear') {
+      if (config.min === undefined || config.max === undefined) {
+        issue('scoringConfig', 'linear mode requires both min and max');
+      } else if (config.min === config.max) {
+        issue('scoringConfig', 'linear mode min and max must differ');
+      }
+    }
+  }
+
+  /**
+   * Better values must never score less: scores may not drop as thresholds
+   * rise in higher_is_better mode, or as they fall in lower_is_better mode
+   */
+  private static validateThresholds(
+    rules: ScoringRule[],
+    mode: 'higher_is_better' | 'lower_is_better',
+    issue: (message: string, rule?: number) => void
+  ) {
+    const thresholds = rules
+      .map((rule, index) => ({
+        value: rule.value as number,
+        score: rule.score,
+        index,
+      }))
+      .sort((a, b) => a.value - b.value);
+
+    for (let i = 1; i < thresholds.length; i++) {
+      const lower = thresholds[i - 1];
+      const higher = thresholds[i];
+      const isBetterScoredLess =
+        mode === 'higher_is_better'
+          ? higher.score < lower.score
+          : higher.score > lower.score;
+
+      if (isBetterScoredLess) {
+        issue(
+          mode === 'higher_is_better'
+            ? `Threshold ${higher.value} scores less than lower threshold ${lower.value}`
+            : `Threshold ${lower.value} scores less than higher threshold ${higher.value}`,
+          higher.index
+        );
+      }
+    }
+  }
+
+  /**
+   * Exact value rules need a value of the expected type and each value may
+   * only be scored once
+   */
+  private static validateValueRules(
+    rules: ScoringRule[],
+    valueType: 'number' | 'string',
+    issue: (message: string, rule?: number) => void
+  ) {
+    const seen = new Set<string>();
+
+    rules.forEach((rule, index) => {
+      if (rule.value === undefined) {
+        issue('Rule must define a value', index);
+        return;
+      }
+      // Binary values may be stored as booleans
+      const type =
+        typeof rule.value === 'boolean' ? 'string' : typeof rule.value;
+      if (type !== valueType) {
+        issue(`Rule value must be a ${valueType}`, index);
+        return;
+      }
+      if (seen.has(String(rule.value))) {
+        issue(`Duplicate rule for value ${rule.value}`, index);
+      }
+      seen.add(String(rule.value));
+    });
+  }
+
+  /**
+   * Ranges are inclusive on both bounds and the next range must start where
+   * the previous one ends (0-5, 5-10), the first matching rule scores the
+   * shared bound. No item type limits its values to whole numbers, so 0-5
+   * followed by 6-10 leaves values like 5.5 unscored and is a gap.
+   */
+  private static validateRanges(
+    rules: ScoringRule[],
+    issue: (message: string, rule?: number) => void
+  ) {
+    const ranges: { min: number; max: number; index: number }[] = [];
+
+    rules.forEach((rule, index) => {
+      if (rule.min === undefined || rule.max === undefined) {
+        issue('Range rules must define both min and max', index);
+        return;
+      }
+      if (rule.min > rule.max) {
+        issue(`Range min ${rule.min} is greater than max ${rule.max}`, index);
+        return;
+      }
+      ranges.push({ min: rule.min, max: rule.max, index });
+    });
+
+    ranges.sort((a, b) => a.min - b.min);
+    for (let i = 1; i < ranges.length; i++) {
+      const previous = ranges[i - 1];
+      const current = ranges[i];
+
+      if (current.min < previous.max) {
+        issue(
+          `Range ${current.min}-${current.max} overlaps range ${previous.min}-${previous.max}`,
+          current.index
+        );
+      } else if (current.min > previous.max) {
+        issue(
+          `Gap between range ${previous.min}-${previous.max} and range ${current.min}-${current.max}`,
+          current.index
+        );
+      }
+    }
+  }
+
+  /**
+   * Weights are optional, but once any item is weighted every item must be
+   * weighted and the weights must add up to TOTAL_WEIGHT
+   */
+  static validateWeights(items: TemplateItem[]): TemplateIssue[] {
+    const weightedItems = items.filter((item) => item.weight !== undefined);
+    if (weightedItems.length === 0) return [];
+
+    const issues: TemplateIssue[] = items
+      .filter((item) => item.weight === undefined)
+      .map((item) => ({
+        item: item.name,
+        field: 'weight',
+        message:
+          'Weight is required when other items of the template are weighted',
+      }));
+
+    const totalWeight = weightedItems.reduce(
+      (sum, item) => sum + (item.weight as number),
+      0
+    );
+    if (Math.abs(totalWeight - TOTAL_WEIGHT) > WEIGHT_TOLERANCE) {
+      issues.push({
+        field: 'weight',
+        message: `Item weights must sum to ${TOTAL_WEIGHT}, got ${totalWeight}`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Formula items must have a parsable formula that only references numeric
+   * items of the same template, and formulas must not depend on each other
+   * in a cycle
+   */
+  static validateFormulas(items: TemplateItem[]): TemplateIssue[] {
+    const issues: TemplateIssue[] = [];
+    const itemsByName = new Map(items.map((item) => [item.name, item]));
+    const dependencies: Record<string, string[]> = {};
+
+    for (const item of items) {
+      if (item.kpiType !== 'formula') {
+        if (item.formula) {
+          issues.push({
+            item: item.name,
+            field: 'formula',
+            message: `Only formula items can have a formula, item is ${item.kpiType}`,
+          });
+        }
+        continue;
+      }
+
+      if (!item.formula) {
+        issues.push({
+          item: item.name,
+          field: 'formula',
+          message: 'Formula items must define a formula',
+        });
+        continue;
+      }
+
+      let references: string[];
+      try {
+        references = getFormulaReferences(item.formula);
+      } catch (error) {
+        issues.push({
+          item: item.name,
+          field: 'formula',
+          message: (error as Error).message,
+        });
+        continue;
+      }
+
+      for (const reference of references) {
+        const referencedItem = itemsByName.get(reference);
+        if (!referencedItem) {
+          issues.push({
+            item: item.name,
+            field: 'formula',
+            message: `Formula references unknown item "${reference}"`,
+          });
+        } else if (!NUMERIC_KPI_TYPES.includes(referencedItem.kpiType)) {
+          issues.push({
+            item: item.name,
+            field: 'formula',
+            message: `Formula references non-numeric item "${reference}" (${referencedItem.kpiType})`,
+          });
+        }
+      }
+
+      dependencies[item.name] = references;
+    }
+
+    const { cycle } = sortFormulas(dependencies);
+    if (cycle) {
+      issues.push({
+        item: cycle[0],
+        field: 'formula',
+        message: `Formulas reference each other in a cycle: ${cycle.join(' -> ')}`,
+      });
+    }
+
+    return issues;
+  }
+}
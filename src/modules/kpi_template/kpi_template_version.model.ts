@@ -0,0 +1,71 @@
+import { model, Schema } from 'mongoose';
+import z from 'zod';
+import {
+  templateItemSchema,
+  templateSectionSchema,
+  zEffectiveFrom,
+  zTemplateItem,
+  zTemplateSection,
+} from './kpi_template.model';
+
+/**
+ * Immutable snapshot of a KPI template's items and sections.
+ * A new version is written every time the template items change so that
+ * entries keep scoring against the rules they were generated under.
+ */
+const zKpiTemplateVersion = z.object({
+  id: z.string().min(1),
+  templateId: z.string().min(1),
+  version: z.number().min(1),
+  name: z.string().min(1),
+  description: z.string().min(1).optional(),
+  departmentSlug: z.string().min(1),
+  role: z.string().min(1),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly', 'yearly']),
+  template: z.array(zTemplateItem),
+  sections: z.array(zTemplateSection).optional(),
+  effectiveFrom: zEffectiveFrom,
+  changedBy: z.string().min(1),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+type KpiTemplateVersion = z.infer<typeof zKpiTemplateVersion>;
+
+const effectiveFromSchema = new Schema(
+  {
+    month: { type: Number, required: true, min: 1, max: 12 },
+    year: { type: Number, required: true, min: 2020 },
+  },
+  { _id: false }
+);
+
+const kpiTemplateVersionSchema = new Schema<KpiTemplateVersion>(
+  {
+    templateId: { type: String, required: true },
+    version: { type: Number, required: true },
+    name: { type: String, required: true },
+    description: { type: String, required: false },
+    departmentSlug: { type: String, required: true },
+    role: { type: String, required: true },
+    frequency: {
+      type: String,
+      enum: zKpiTemplateVersion.shape.frequency.options,
+      required: true,
+    },
+    template: { type: [templateItemSchema], required: true },
+    sections: { type: [templateSectionSchema], default: [] },
+    effectiveFrom: { type: effectiveFromSchema, required: true },
+    changedBy: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+kpiTemplateVersionSchema.index({ templateId: 1, version: 1 }, { unique: true });
+
+export const KpiTemplateVersionModel = model<KpiTemplateVersion>(
+  'tbl_kpi_template_versions',
+  kpiTemplateVersionSchema
+);